@@ -0,0 +1,120 @@
+import { expect, test, describe } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { existsSync } from "fs";
+import {
+  cacheStorePath,
+  openCacheStore,
+  openExistingCacheStore,
+  type StoredCacheEntry,
+} from "./cache-store";
+
+function entry(
+  overrides: Partial<Omit<StoredCacheEntry, "id">> = {}
+): Omit<StoredCacheEntry, "id"> {
+  return {
+    suiteId: "skate",
+    version: "v1",
+    model: "a",
+    signatureHash: "abc",
+    timestamp: "2026-01-01T00:00:00.000Z",
+    error: false,
+    cost: 0.01,
+    duration: 1000,
+    payload: { model: "a", result: { text: "kickflip" } },
+    ...overrides,
+  };
+}
+
+describe("Cache store", () => {
+  test("finds entries by suite, version, model and signature", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "cache-store-"));
+    try {
+      const store = openCacheStore(dir);
+      store.insert(entry());
+      store.insert(entry({ model: "b", error: true, runId: "r1" }));
+      store.insert(entry({ version: "v2" }));
+
+      expect(store.find({ suiteId: "skate", version: "v1" })).toHaveLength(2);
+      const [b] = store.find({ model: "b" });
+      expect(b.error).toBe(true);
+      expect(b.runId).toBe("r1");
+      expect(b.payload.result.text).toBe("kickflip");
+      expect(store.find({ signatureHash: "other" })).toEqual([]);
+      expect(store.find()).toHaveLength(3);
+      // Error entries have nothing to reuse
+      expect(store.signatureHashes({ version: "v1" })).toEqual(["abc"]);
+      store.close();
+
+      // Reopening reads the same file
+      expect(openCacheStore(dir).find()).toHaveLength(3);
+      openCacheStore(dir).close();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("imports each legacy file once", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "cache-store-"));
+    try {
+      const store = openCacheStore(dir);
+      expect(store.insert(entry(), "/old/a.json")).toBeNumber();
+      expect(store.insert(entry(), "/old/a.json")).toBeUndefined();
+      expect(store.importedFiles()).toEqual(new Set(["/old/a.json"]));
+      store.close();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("deletes entries by id", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "cache-store-"));
+    try {
+      const store = openCacheStore(dir);
+      const a = store.insert(entry())!;
+      const b = store.insert(entry({ model: "b" }))!;
+      expect(store.delete([a, b + 100])).toBe(1);
+      expect(store.find().map((e) => e.id)).toEqual([b]);
+      store.close();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("lists request costs without creating a missing store", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "cache-store-"));
+    try {
+      expect(openExistingCacheStore(dir)).toBeUndefined();
+      expect(existsSync(cacheStorePath(dir))).toBe(false);
+
+      const store = openCacheStore(dir);
+      store.insert(entry());
+      store.insert(entry({ model: "b", error: true }));
+      expect(openExistingCacheStore(dir)!.requestCosts()).toEqual([
+        { suiteId: "skate", model: "a", cost: 0.01, duration: 1000 },
+      ]);
+      store.close();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("stores judge verdicts by key", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "cache-store-"));
+    try {
+      const store = openCacheStore(dir);
+      expect(store.findVerdict("k")).toBeUndefined();
+      store.saveVerdict("k", { correct: false });
+      store.saveVerdict("k", { correct: true });
+      expect(store.findVerdict("k")).toEqual({ correct: true });
+
+      store.saveVerdict("a", { model: "judge", correct: true, cost: 0.002 });
+      store.saveVerdict("b", { model: "other", correct: true, cost: 0.5 });
+      expect(store.verdictCosts("judge")).toEqual([0.002]);
+      store.close();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,264 @@
+import { Database } from "bun:sqlite";
+import { existsSync, mkdirSync } from "fs";
+import { join } from "path";
+
+// One cached request. The indexed columns are copied out of the payload,
+// which is the same JSON document the old per-file cache held.
+export type StoredCacheEntry = {
+  id: number;
+  suiteId: string;
+  // Namespace as in the old cache directories: the version or "unversioned"
+  version: string;
+  model: string;
+  signatureHash: string;
+  runId?: string;
+  timestamp: string;
+  error: boolean;
+  cost: number;
+  duration: number;
+  // Undefined when the stored JSON doesn't parse
+  payload: any;
+};
+
+export type CacheQuery = {
+  suiteId?: string;
+  version?: string;
+  model?: string;
+  signatureHash?: string;
+  runId?: string;
+};
+
+export type CacheStore = {
+  path: string;
+  // Returns the new id, or undefined if legacyFile was already imported
+  insert(
+    entry: Omit<StoredCacheEntry, "id">,
+    legacyFile?: string
+  ): number | undefined;
+  find(query?: CacheQuery): StoredCacheEntry[];
+  // Signature hashes of the successful entries matching query, without the
+  // payloads
+  signatureHashes(query?: CacheQuery): string[];
+  // Cost and duration of every successful request, without the payloads
+  requestCosts(): Array<
+    Pick<StoredCacheEntry, "suiteId" | "model" | "cost" | "duration">
+  >;
+  // Rewrites one entry's payload; the indexed columns stay as inserted
+  updatePayload(id: number, change: (payload: any) => any): void;
+  // Returns how many entries were deleted
+  delete(ids: number[]): number;
+  // Paths of old cache files imported by the migration
+  importedFiles(): Set<string>;
+  // Judge verdicts by the judge's cache key. Undefined when none was stored
+  // or the stored JSON doesn't parse
+  findVerdict(key: string): any;
+  // Replaces any verdict stored under key
+  saveVerdict(key: string, verdict: unknown): void;
+  // Cost of every stored verdict by the judge model, without the rest
+  verdictCosts(judge: string): number[];
+  close(): void;
+};
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS entries (
+  id INTEGER PRIMARY KEY,
+  suite_id TEXT NOT NULL,
+  version TEXT NOT NULL,
+  model TEXT NOT NULL,
+  signature_hash TEXT NOT NULL,
+  run_id TEXT,
+  timestamp TEXT NOT NULL,
+  error INTEGER NOT NULL,
+  cost REAL NOT NULL,
+  duration REAL NOT NULL,
+  legacy_file TEXT UNIQUE,
+  payload TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS entries_lookup
+  ON entries (suite_id, version, signature_hash, model);
+CREATE INDEX IF NOT EXISTS entries_signature
+  ON entries (suite_id, signature_hash, model);
+CREATE INDEX IF NOT EXISTS entries_model ON entries (model);
+CREATE TABLE IF NOT EXISTS verdicts (
+  key TEXT PRIMARY KEY,
+  timestamp TEXT NOT NULL,
+  payload TEXT NOT NULL
+);
+`;
+
+const columns: Record<keyof CacheQuery, string> = {
+  suiteId: "suite_id",
+  version: "version",
+  model: "model",
+  signatureHash: "signature_hash",
+  runId: "run_id",
+};
+
+function parsePayload(raw: string) {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
+
+export function cacheStorePath(outputDirectory: string) {
+  return join(outputDirectory, "cache", "cache.sqlite");
+}
+
+// One connection per file for the whole process
+const openStores = new Map<string, CacheStore>();
+
+export function openCacheStore(outputDirectory: string): CacheStore {
+  const path = cacheStorePath(outputDirectory);
+  const open = openStores.get(path);
+  if (open) return open;
+
+  const dir = join(outputDirectory, "cache");
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  const db = new Database(path, { create: true });
+  db.exec("PRAGMA journal_mode = WAL;");
+  db.exec(SCHEMA);
+
+  const insertStatement = db.prepare(
+    `INSERT OR IGNORE INTO entries
+      (suite_id, version, model, signature_hash, run_id, timestamp, error,
+       cost, duration, legacy_file, payload)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+
+  function whereClause(query: CacheQuery) {
+    const filters = Object.entries(query).filter(([, v]) => v !== undefined);
+    return {
+      where: filters
+        .map(([key]) => `${columns[key as keyof CacheQuery]} = ?`)
+        .join(" AND "),
+      values: filters.map(([, v]) => v as string),
+    };
+  }
+
+  const store: CacheStore = {
+    path,
+    insert(entry, legacyFile) {
+      const { changes, lastInsertRowid } = insertStatement.run(
+        entry.suiteId,
+        entry.version,
+        entry.model,
+        entry.signatureHash,
+        entry.runId ?? null,
+        entry.timestamp,
+        entry.error ? 1 : 0,
+        entry.cost,
+        entry.duration,
+        legacyFile ?? null,
+        JSON.stringify(entry.payload)
+      );
+      return changes > 0 ? Number(lastInsertRowid) : undefined;
+    },
+    find(query = {}) {
+      const { where, values } = whereClause(query);
+      const rows = db
+        .query(
+          `SELECT * FROM entries ${where ? `WHERE ${where}` : ""} ORDER BY id`
+        )
+        .all(...values) as any[];
+      return rows.map((row) => ({
+        id: row.id,
+        suiteId: row.suite_id,
+        version: row.version,
+        model: row.model,
+        signatureHash: row.signature_hash,
+        runId: row.run_id ?? undefined,
+        timestamp: row.timestamp,
+        error: row.error === 1,
+        cost: row.cost,
+        duration: row.duration,
+        payload: parsePayload(row.payload),
+      }));
+    },
+    signatureHashes(query = {}) {
+      const { where, values } = whereClause(query);
+      const rows = db
+        .query(
+          `SELECT signature_hash FROM entries WHERE error = 0${
+            where ? ` AND ${where}` : ""
+          } ORDER BY id`
+        )
+        .all(...values) as Array<{ signature_hash: string }>;
+      return rows.map((row) => row.signature_hash);
+    },
+    requestCosts() {
+      const rows = db
+        .query(
+          "SELECT suite_id, model, cost, duration FROM entries WHERE error = 0 ORDER BY id"
+        )
+        .all() as any[];
+      return rows.map((row) => ({
+        suiteId: row.suite_id,
+        model: row.model,
+        cost: row.cost,
+        duration: row.duration,
+      }));
+    },
+    updatePayload(id, change) {
+      const row = db
+        .query("SELECT payload FROM entries WHERE id = ?")
+        .get(id) as { payload: string } | null;
+      if (!row) return;
+      db.query("UPDATE entries SET payload = ? WHERE id = ?").run(
+        JSON.stringify(change(parsePayload(row.payload))),
+        id
+      );
+    },
+    delete(ids) {
+      const remove = db.prepare("DELETE FROM entries WHERE id = ?");
+      return db.transaction(() =>
+        ids.reduce((n, id) => n + remove.run(id).changes, 0)
+      )();
+    },
+    importedFiles() {
+      const rows = db
+        .query("SELECT legacy_file FROM entries WHERE legacy_file IS NOT NULL")
+        .all() as Array<{ legacy_file: string }>;
+      return new Set(rows.map((r) => r.legacy_file));
+    },
+    findVerdict(key) {
+      const row = db
+        .query("SELECT payload FROM verdicts WHERE key = ?")
+        .get(key) as { payload: string } | null;
+      return row ? parsePayload(row.payload) : undefined;
+    },
+    saveVerdict(key, verdict) {
+      db.query(
+        "INSERT OR REPLACE INTO verdicts (key, timestamp, payload) VALUES (?, ?, ?)"
+      ).run(key, new Date().toISOString(), JSON.stringify(verdict));
+    },
+    verdictCosts(judge) {
+      const rows = db
+        .query(
+          `SELECT json_extract(payload, '$.cost') AS cost FROM verdicts
+           WHERE json_valid(payload) AND json_extract(payload, '$.model') = ?`
+        )
+        .all(judge) as Array<{ cost: unknown }>;
+      return rows.flatMap((row) =>
+        typeof row.cost === "number" ? [row.cost] : []
+      );
+    },
+    close() {
+      openStores.delete(path);
+      db.close();
+    },
+  };
+  openStores.set(path, store);
+  return store;
+}
+
+// For lookups: undefined when no store was created yet, so reading the cache
+// (e.g. in a dry run) doesn't create one
+export function openExistingCacheStore(
+  outputDirectory: string
+): CacheStore | undefined {
+  const path = cacheStorePath(outputDirectory);
+  if (!openStores.has(path) && !existsSync(path)) return undefined;
+  return openCacheStore(outputDirectory);
+}
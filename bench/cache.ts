@@ -0,0 +1,85 @@
+#!/usr/bin/env bun
+import { existsSync } from "fs";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+import { parseArgs } from "util";
+import {
+  cacheStats,
+  loadSuiteFromFile,
+  pruneCache,
+  verifyCache,
+} from "./index";
+
+const USAGE = `Usage: bun run cache <command> [options]
+
+Commands:
+  verify <suite>    Report entries that can't be reused: malformed, recorded
+                    with another system prompt, for tests no longer in the
+                    suite, or errors
+  prune <suite>     Delete malformed, mismatched and orphaned entries
+  stats [suite id]  Entries and errors per suite, version, model and test
+
+Options:
+  --version <label> Only this version (default: every version)
+  --output <dir>    Results directory
+  --errors          prune: also delete error entries
+  --dry-run         prune: list what would be deleted without deleting`;
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+let parsed;
+try {
+  parsed = parseArgs({
+    args: process.argv.slice(2),
+    allowPositionals: true,
+    options: {
+      version: { type: "string" },
+      output: { type: "string" },
+      errors: { type: "boolean" },
+      "dry-run": { type: "boolean" },
+    },
+  });
+} catch (e) {
+  fail((e as Error).message);
+}
+const { values, positionals } = parsed;
+const [command, suiteArg] = positionals;
+const common = { version: values.version, outputDirectory: values.output };
+
+// Suite file path, or a file name in tests/ (like `bun run regrade`)
+async function loadSuiteArg() {
+  if (!suiteArg) fail(`${command} needs a suite`);
+  const testsDir = join(dirname(fileURLToPath(import.meta.url)), "tests");
+  const suiteFilePath = existsSync(suiteArg)
+    ? suiteArg
+    : join(
+        testsDir,
+        suiteArg.endsWith(".json") ? suiteArg : `${suiteArg}.json`
+      );
+  if (!existsSync(suiteFilePath)) fail(`Test suite not found: ${suiteArg}`);
+  return { suite: await loadSuiteFromFile(suiteFilePath), suiteFilePath };
+}
+
+switch (command) {
+  case "verify": {
+    const { issues } = verifyCache({ ...(await loadSuiteArg()), ...common });
+    if (issues.some((i) => i.kind !== "error")) process.exitCode = 1;
+    break;
+  }
+  case "prune":
+    pruneCache({
+      ...(await loadSuiteArg()),
+      ...common,
+      errors: values.errors,
+      dryRun: values["dry-run"],
+    });
+    break;
+  case "stats":
+    cacheStats({ suiteId: suiteArg, ...common });
+    break;
+  default:
+    fail(command ? `Unknown command: ${command}` : "Missing command");
+}
@@ -1,17 +1,23 @@
 #!/usr/bin/env node
 import React, { useEffect, useMemo, useState } from "react";
-import { render, Box, Text, useApp } from "ink";
+import { render, Box, Text, useApp, useInput } from "ink";
 import SelectInput from "ink-select-input";
 import TextInput from "ink-text-input";
-import { join, dirname } from "path";
+import { join, dirname, basename, resolve } from "path";
 import { fileURLToPath } from "url";
+import { parseArgs } from "util";
 import { readdir, readFile } from "fs/promises";
 import {
   loadSuiteFromFile,
   testRunner,
   type TestSuite,
   type RunnerEvent,
+  type TestRunnerOptions,
+  type CacheReusePolicy,
 } from "./index";
+import { modelsToRun } from "./constants";
+import { parseSweepArg, type SweepDefinition } from "./sweep";
+import { formatErrorBreakdown, type ErrorClass } from "./retry";
 
 function ensureRefUnref(stream: any) {
   if (!stream) return stream;
@@ -46,6 +52,172 @@ async function findTestSuites(testsDir: string) {
   return suites;
 }
 
+type CliOptions = {
+  suite?: string;
+  version?: string;
+  models?: string[];
+  runs?: number;
+  concurrency?: number;
+  timeoutSeconds?: number;
+  outputDirectory?: string;
+  maxAttempts?: number;
+  maxCost?: number;
+  maxCostPerModel?: number;
+  sweep?: SweepDefinition;
+  cacheReuse?: CacheReusePolicy;
+  yes: boolean;
+  plain: boolean;
+  dryRun: boolean;
+};
+
+const USAGE = `Usage: bun run cli [options]
+
+Options:
+  --suite <file|id|name>  Test suite to run (skips the suite picker)
+  --version <label>       Version label (skips the version prompt)
+  --models <a,b,...>      Comma-separated model names or globs (e.g. "gpt-5*")
+                          (skips the model picker)
+  --runs <n>              Runs per model and test
+  --concurrency <n>       Maximum parallel requests
+  --timeout <seconds>     Per-request timeout
+  --output <dir>          Results directory
+  --max-attempts <n>      Tries per request for rate limits and server errors
+                          (1 disables retries)
+  --max-cost <usd>        Stop starting requests once the run has cost this much
+  --max-cost-per-model <usd>
+                          Same, per model
+  --sweep <grid>          Run every model over a parameter grid, e.g.
+                          "temperature=0,0.7,1;reasoning_budget=1024,4096"
+  --reuse <same|any|v1,v2>
+                          Versions whose cached answers may be reused
+                          (default: same version only)
+  -y, --yes               Accept defaults (all models, today's version label)
+                          for anything not given on the command line
+  --plain                 Plain log output instead of the interactive UI
+                          (automatic when stdout is not a TTY)
+  --dry-run               Print the plan with cost and time estimates from
+                          cached history, then exit without calling any model
+                          (implies --plain)`;
+
+function parsePositiveNumber(flag: string, value: string | undefined) {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0)
+    throw new Error(`--${flag} must be a positive number, got "${value}"`);
+  return n;
+}
+
+function parsePositiveInteger(flag: string, value: string | undefined) {
+  const n = parsePositiveNumber(flag, value);
+  if (n !== undefined && !Number.isInteger(n))
+    throw new Error(`--${flag} must be a whole number, got "${value}"`);
+  return n;
+}
+
+function parseReuseArg(
+  value: string | undefined
+): CacheReusePolicy | undefined {
+  if (value === undefined) return undefined;
+  if (value === "same") return "sameVersion";
+  if (value === "any") return "anyVersion";
+  const versions = value
+    .split(",")
+    .map((v) => v.trim())
+    .filter((v) => v.length > 0);
+  if (versions.length === 0)
+    throw new Error(`--reuse must be "same", "any" or a list of versions`);
+  return { versions };
+}
+
+function parseCliArgs(argv: string[]): CliOptions {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      suite: { type: "string" },
+      version: { type: "string" },
+      models: { type: "string" },
+      runs: { type: "string" },
+      concurrency: { type: "string" },
+      timeout: { type: "string" },
+      output: { type: "string" },
+      "max-attempts": { type: "string" },
+      "max-cost": { type: "string" },
+      "max-cost-per-model": { type: "string" },
+      sweep: { type: "string" },
+      reuse: { type: "string" },
+      yes: { type: "boolean", short: "y" },
+      plain: { type: "boolean" },
+      "dry-run": { type: "boolean" },
+    },
+  });
+  return {
+    suite: values.suite,
+    version: values.version,
+    models: values.models
+      ?.split(",")
+      .map((m) => m.trim())
+      .filter((m) => m.length > 0),
+    runs: parsePositiveInteger("runs", values.runs),
+    concurrency: parsePositiveInteger("concurrency", values.concurrency),
+    timeoutSeconds: parsePositiveNumber("timeout", values.timeout),
+    outputDirectory: values.output,
+    maxAttempts: parsePositiveInteger("max-attempts", values["max-attempts"]),
+    maxCost: parsePositiveNumber("max-cost", values["max-cost"]),
+    maxCostPerModel: parsePositiveNumber(
+      "max-cost-per-model",
+      values["max-cost-per-model"]
+    ),
+    sweep: values.sweep === undefined ? undefined : parseSweepArg(values.sweep),
+    cacheReuse: parseReuseArg(values.reuse),
+    yes: values.yes ?? false,
+    plain: values.plain ?? false,
+    dryRun: values["dry-run"] ?? false,
+  };
+}
+
+function runnerOverrides(
+  cli: CliOptions
+): Pick<
+  TestRunnerOptions,
+  | "models"
+  | "runsPerModel"
+  | "maxConcurrency"
+  | "timeoutSeconds"
+  | "outputDirectory"
+  | "maxAttempts"
+  | "maxTotalCost"
+  | "maxCostPerModel"
+  | "sweep"
+  | "cacheReuse"
+> {
+  return {
+    models: cli.models,
+    runsPerModel: cli.runs,
+    maxConcurrency: cli.concurrency,
+    timeoutSeconds: cli.timeoutSeconds,
+    outputDirectory: cli.outputDirectory,
+    maxAttempts: cli.maxAttempts,
+    maxTotalCost: cli.maxCost,
+    maxCostPerModel: cli.maxCostPerModel,
+    sweep: cli.sweep,
+    cacheReuse: cli.cacheReuse,
+  };
+}
+
+function findSuiteIndex(
+  suites: Array<{ filePath: string; suite: TestSuite }>,
+  query: string
+) {
+  return suites.findIndex(
+    (s) =>
+      s.filePath === resolve(query) ||
+      basename(s.filePath, ".json") === query ||
+      basename(s.filePath) === query ||
+      s.suite.id === query ||
+      s.suite.name === query
+  );
+}
+
 function formatDefaultVersion() {
   const d = new Date();
   const yyyy = d.getFullYear();
@@ -62,11 +234,18 @@ type ModelStats = {
   executedStarted: number;
   executedDone: number;
   executedErrors: number;
+  errorsByClass: Partial<Record<ErrorClass, number>>;
+  // Transient failures that were retried
+  retries: number;
+  // Jobs dropped by the budget guard
+  skipped: number;
   executedDurationSumMs: number;
   executedMaxDurationMs: number;
   correctCount: number;
   incorrectCount: number;
   costSum: number;
+  // Completed runs whose cost was estimated from the pricing table
+  estimatedCostCount: number;
 };
 
 function ProgressBar({
@@ -96,6 +275,53 @@ function ProgressBar({
   );
 }
 
+function ModelMultiSelect({
+  names,
+  onSubmit,
+}: {
+  names: string[];
+  onSubmit: (selected: string[]) => void;
+}) {
+  const [cursor, setCursor] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(names));
+
+  useInput((input, key) => {
+    if (key.upArrow) {
+      setCursor((c) => (c - 1 + names.length) % names.length);
+    } else if (key.downArrow) {
+      setCursor((c) => (c + 1) % names.length);
+    } else if (input === " ") {
+      setSelected((prev) => {
+        const next = new Set(prev);
+        const name = names[cursor];
+        if (next.has(name)) next.delete(name);
+        else next.add(name);
+        return next;
+      });
+    } else if (input === "a") {
+      setSelected((prev) =>
+        prev.size === names.length ? new Set() : new Set(names)
+      );
+    } else if (key.return && selected.size > 0) {
+      onSubmit(names.filter((n) => selected.has(n)));
+    }
+  });
+
+  return (
+    <Box flexDirection="column">
+      {names.map((name, idx) => (
+        <Text key={name}>
+          <Text color="cyan">{idx === cursor ? "›" : " "}</Text>{" "}
+          <Text color={selected.has(name) ? "green" : "gray"}>
+            {selected.has(name) ? "◉" : "◯"}
+          </Text>{" "}
+          <Text color={idx === cursor ? "cyan" : undefined}>{name}</Text>
+        </Text>
+      ))}
+    </Box>
+  );
+}
+
 function pad(str: string, width: number) {
   if (str.length === width) return str;
   if (str.length < width) return str.padEnd(width, " ");
@@ -115,7 +341,7 @@ function pctColor(p: number) {
   return "red" as const;
 }
 
-const App: React.FC = () => {
+const App: React.FC<{ cli: CliOptions }> = ({ cli }) => {
   const benchRoot = useBenchRoot();
   const testsDir = useMemo(() => join(benchRoot, "tests"), [benchRoot]);
   const { exit } = useApp();
@@ -127,26 +353,59 @@ const App: React.FC = () => {
   >([]);
 
   const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
-  const [version, setVersion] = useState<string>(formatDefaultVersion());
-  const [stage, setStage] = useState<"pickSuite" | "version" | "running">(
-    "pickSuite"
+  const [version, setVersion] = useState<string>(
+    cli.version ?? formatDefaultVersion()
   );
+  const skipVersionPrompt = cli.version !== undefined || cli.yes;
+  const [selectedModels, setSelectedModels] = useState<string[] | undefined>(
+    cli.models
+  );
+  const [stage, setStage] = useState<
+    "pickSuite" | "pickModels" | "version" | "running"
+  >("pickSuite");
+  const stageAfterSuite =
+    cli.models !== undefined || cli.yes
+      ? skipVersionPrompt
+        ? "running"
+        : "version"
+      : "pickModels";
 
   const [modelOrder, setModelOrder] = useState<string[]>([]);
   const [stats, setStats] = useState<Record<string, ModelStats>>({});
+  const [budgetNotices, setBudgetNotices] = useState<string[]>([]);
+  const [runId, setRunId] = useState<string | null>(null);
+
+  // Ctrl-C once cancels the run and still writes partial results; twice quits
+  const abortController = useMemo(() => new AbortController(), []);
+  const [cancelling, setCancelling] = useState(false);
+  useInput((input, key) => {
+    if (!(key.ctrl && input === "c")) return;
+    if (stage !== "running" || abortController.signal.aborted) {
+      exit();
+      process.exit(130);
+    }
+    abortController.abort();
+    setCancelling(true);
+  });
 
   useEffect(() => {
     (async () => {
       try {
         const found = await findTestSuites(testsDir);
         setSuites(found);
+        if (cli.suite) {
+          const idx = findSuiteIndex(found, cli.suite);
+          if (idx === -1) throw new Error(`Test suite not found: ${cli.suite}`);
+          setSelectedIndex(idx);
+          setStage(stageAfterSuite);
+        }
         setLoading(false);
       } catch (e) {
         setError((e as Error).message);
         setLoading(false);
       }
     })();
-  }, [testsDir]);
+  }, [testsDir, cli.suite, stageAfterSuite]);
 
   useEffect(() => {
     if (stage === "running" && selectedIndex != null) {
@@ -159,8 +418,12 @@ const App: React.FC = () => {
           suiteFilePath: entry.filePath,
           version,
           silent: true,
+          ...runnerOverrides(cli),
+          models: selectedModels,
+          signal: abortController.signal,
           onEvent: (event: RunnerEvent) => {
             if (event.type === "plan") {
+              setRunId(event.runId);
               const order = Object.keys(event.totals);
               setModelOrder(order);
               setStats(
@@ -175,11 +438,15 @@ const App: React.FC = () => {
                       executedStarted: 0,
                       executedDone: 0,
                       executedErrors: 0,
+                      errorsByClass: {},
+                      retries: 0,
+                      skipped: 0,
                       executedDurationSumMs: 0,
                       executedMaxDurationMs: 0,
                       correctCount: 0,
                       incorrectCount: 0,
                       costSum: 0,
+                      estimatedCostCount: 0,
                     };
                     return acc;
                   },
@@ -209,8 +476,12 @@ const App: React.FC = () => {
                   correctCount:
                     prev[event.model].correctCount + (event.correct ? 1 : 0),
                   incorrectCount:
-                    prev[event.model].incorrectCount + (!event.correct ? 1 : 0),
+                    prev[event.model].incorrectCount +
+                    (!event.correct && !event.gradingError ? 1 : 0),
                   costSum: prev[event.model].costSum + (event.cost || 0),
+                  estimatedCostCount:
+                    prev[event.model].estimatedCostCount +
+                    (event.costSource === "estimated" ? 1 : 0),
                 },
               }));
             } else if (event.type === "error") {
@@ -219,6 +490,12 @@ const App: React.FC = () => {
                 [event.model]: {
                   ...prev[event.model],
                   executedErrors: prev[event.model].executedErrors + 1,
+                  errorsByClass: {
+                    ...prev[event.model].errorsByClass,
+                    [event.errorClass]:
+                      (prev[event.model].errorsByClass[event.errorClass] ?? 0) +
+                      1,
+                  },
                   executedDurationSumMs:
                     prev[event.model].executedDurationSumMs + event.duration,
                   executedMaxDurationMs: Math.max(
@@ -227,6 +504,45 @@ const App: React.FC = () => {
                   ),
                 },
               }));
+            } else if (event.type === "budget") {
+              setStats((prev) => {
+                const next = { ...prev };
+                for (const [name, count] of Object.entries(event.skipped))
+                  next[name] = {
+                    ...next[name],
+                    skipped: next[name].skipped + count,
+                  };
+                return next;
+              });
+              setBudgetNotices((prev) => [
+                ...prev,
+                `Budget reached ${
+                  event.scope === "total" ? "for the run" : `for ${event.model}`
+                }: $${event.spent.toFixed(4)} of $${event.limit.toFixed(
+                  4
+                )}, skipped ${Object.values(event.skipped).reduce(
+                  (a, b) => a + b,
+                  0
+                )} jobs`,
+              ]);
+            } else if (event.type === "cancel") {
+              setStats((prev) => {
+                const next = { ...prev };
+                for (const [name, count] of Object.entries(event.skipped))
+                  next[name] = {
+                    ...next[name],
+                    skipped: next[name].skipped + count,
+                  };
+                return next;
+              });
+            } else if (event.type === "retry") {
+              setStats((prev) => ({
+                ...prev,
+                [event.model]: {
+                  ...prev[event.model],
+                  retries: prev[event.model].retries + 1,
+                },
+              }));
             } else if (event.type === "reuse") {
               setStats((prev) => ({
                 ...prev,
@@ -236,18 +552,31 @@ const App: React.FC = () => {
                   correctCount:
                     prev[event.model].correctCount + (event.correct ? 1 : 0),
                   incorrectCount:
-                    prev[event.model].incorrectCount + (!event.correct ? 1 : 0),
+                    prev[event.model].incorrectCount +
+                    (!event.correct && !event.gradingError ? 1 : 0),
                   costSum: prev[event.model].costSum + (event.cost || 0),
+                  estimatedCostCount:
+                    prev[event.model].estimatedCostCount +
+                    (event.costSource === "estimated" ? 1 : 0),
                 },
               }));
             }
           },
-        });
+        }).catch((e) => setError((e as Error).message));
         // Keep the final UI as-is and exit the app
         exit();
       })();
     }
-  }, [stage, selectedIndex, suites, version, exit]);
+  }, [
+    stage,
+    selectedIndex,
+    suites,
+    version,
+    exit,
+    cli,
+    selectedModels,
+    abortController,
+  ]);
 
   if (loading) {
     return (
@@ -284,7 +613,28 @@ const App: React.FC = () => {
           }))}
           onSelect={(item: any) => {
             setSelectedIndex(item.value as number);
-            setStage("version");
+            setStage(stageAfterSuite);
+          }}
+        />
+      </Box>
+    );
+  }
+
+  if (stage === "pickModels") {
+    return (
+      <Box flexDirection="column">
+        <Text>
+          Select models{" "}
+          <Text color="gray">
+            (space to toggle, a for all, Enter to continue)
+          </Text>
+          :
+        </Text>
+        <ModelMultiSelect
+          names={modelsToRun.map((m) => m.name)}
+          onSubmit={(names) => {
+            setSelectedModels(names);
+            setStage(skipVersionPrompt ? "running" : "version");
           }}
         />
       </Box>
@@ -314,8 +664,10 @@ const App: React.FC = () => {
         const s = stats[name];
         if (!s) return acc;
         acc.total += s.total;
-        acc.completed += s.reuseCompleted + s.executedDone + s.executedErrors;
+        acc.completed +=
+          s.reuseCompleted + s.executedDone + s.executedErrors + s.skipped;
         acc.errors += s.executedErrors;
+        acc.retries += s.retries;
         acc.running += Math.max(
           0,
           s.executedStarted - s.executedDone - s.executedErrors
@@ -332,6 +684,7 @@ const App: React.FC = () => {
         total: 0,
         completed: 0,
         errors: 0,
+        retries: 0,
         running: 0,
         correct: 0,
         incorrect: 0,
@@ -347,6 +700,7 @@ const App: React.FC = () => {
       "Tests",
       "% Right",
       "Errors",
+      "Retries",
       "Running Tests",
       "Avg Cost",
       "Avg Duration",
@@ -355,9 +709,10 @@ const App: React.FC = () => {
 
     const rows = modelOrder.map((name) => {
       const s = stats[name];
-      const completed = s ? s.reuseCompleted + s.executedDone : 0;
+      const completed = s ? s.reuseCompleted + s.executedDone + s.skipped : 0;
       const denom = s ? s.total : 0;
       const err = s ? s.executedErrors : 0;
+      const retries = s ? s.retries : 0;
       const run = s
         ? Math.max(0, s.executedStarted - s.executedDone - s.executedErrors)
         : 0;
@@ -377,9 +732,15 @@ const App: React.FC = () => {
         model: name,
         done: `${completed}/${denom}`,
         correct: pct === null ? "-" : `${pct}%`,
-        err: err === 0 ? "-" : String(err),
+        // e.g. "2 timeout, 1 rate-limit"
+        err: err === 0 ? "-" : formatErrorBreakdown(s!.errorsByClass),
+        retries: retries === 0 ? "-" : String(retries),
         run: run === 0 ? "-" : String(run),
-        avgCost: avgCost === null ? "-" : `$${avgCost.toFixed(4)}`,
+        // "~" marks averages that include estimated costs
+        avgCost:
+          avgCost === null
+            ? "-"
+            : `${s!.estimatedCostCount > 0 ? "~" : ""}$${avgCost.toFixed(4)}`,
         avg: avgSec === null ? "-" : `${avgSec.toFixed(2)}s`,
         slow: slowSec === null ? "-" : `${slowSec.toFixed(2)}s`,
         pct,
@@ -391,10 +752,11 @@ const App: React.FC = () => {
       done: Math.max(header[1].length, ...rows.map((r) => r.done.length)),
       correct: Math.max(header[2].length, ...rows.map((r) => r.correct.length)),
       err: Math.max(header[3].length, ...rows.map((r) => r.err.length)),
-      run: Math.max(header[4].length, ...rows.map((r) => r.run.length)),
-      avgCost: Math.max(header[5].length, ...rows.map((r) => r.avgCost.length)),
-      avg: Math.max(header[6].length, ...rows.map((r) => r.avg.length)),
-      slow: Math.max(header[7].length, ...rows.map((r) => r.slow.length)),
+      retries: Math.max(header[4].length, ...rows.map((r) => r.retries.length)),
+      run: Math.max(header[5].length, ...rows.map((r) => r.run.length)),
+      avgCost: Math.max(header[6].length, ...rows.map((r) => r.avgCost.length)),
+      avg: Math.max(header[7].length, ...rows.map((r) => r.avg.length)),
+      slow: Math.max(header[8].length, ...rows.map((r) => r.slow.length)),
     };
 
     const overallAnswered = totals.correct + totals.incorrect;
@@ -414,6 +776,7 @@ const App: React.FC = () => {
         <Text>
           Running <Text color="magentaBright">{picked?.suite.name}</Text> @
           version <Text color="cyan">{version}</Text>…
+          {runId && <Text color="gray"> (run {runId})</Text>}
         </Text>
 
         <Box flexDirection="column" marginTop={1}>
@@ -435,19 +798,23 @@ const App: React.FC = () => {
             </Text>
             {"  "}
             <Text underline color="whiteBright">
-              {pad(header[4], widths.run)}
+              {pad(header[4], widths.retries)}
+            </Text>
+            {"  "}
+            <Text underline color="whiteBright">
+              {pad(header[5], widths.run)}
             </Text>
             {"  "}
             <Text underline color="whiteBright">
-              {pad(header[5], widths.avgCost)}
+              {pad(header[6], widths.avgCost)}
             </Text>
             {"  "}
             <Text underline color="whiteBright">
-              {pad(header[6], widths.avg)}
+              {pad(header[7], widths.avg)}
             </Text>
             {"  "}
             <Text underline color="whiteBright">
-              {pad(header[7], widths.slow)}
+              {pad(header[8], widths.slow)}
             </Text>
           </Text>
           {rows.map((r) => (
@@ -464,6 +831,10 @@ const App: React.FC = () => {
                 {padLeft(r.err, widths.err)}
               </Text>
               {"  "}
+              <Text color={r.retries === "-" ? "gray" : "yellow"}>
+                {padLeft(r.retries, widths.retries)}
+              </Text>
+              {"  "}
               <Text color={r.run === "-" ? "gray" : "yellow"}>
                 {padLeft(r.run, widths.run)}
               </Text>
@@ -486,6 +857,18 @@ const App: React.FC = () => {
         <Box marginTop={1}>
           <ProgressBar completed={totals.completed} total={totals.total} />
         </Box>
+        {budgetNotices.map((notice) => (
+          <Text key={notice} color="yellow">
+            {notice}
+          </Text>
+        ))}
+        {cancelling && (
+          <Text color="yellow">
+            Cancelling: aborting requests in flight, then writing partial
+            results (Ctrl-C again to quit now).
+            {runId && ` Finish later with: bun run resume ${runId}`}
+          </Text>
+        )}
         <Box marginTop={1}>
           <Text>
             Overall: <Text color="green">{totals.completed}</Text>/
@@ -494,6 +877,7 @@ const App: React.FC = () => {
               {overallPct == null ? "-" : `${overallPct}%`}
             </Text>{" "}
             correct • <Text color="red">{totals.errors || "-"}</Text> errors •{" "}
+            <Text color="yellow">{totals.retries || "-"}</Text> retries •{" "}
             <Text color="yellow">{totals.running || "-"}</Text> running •{" "}
             <Text color={overallAvgSec == null ? "gray" : "cyan"}>
               {overallAvgSec == null ? "-" : `${overallAvgSec.toFixed(2)}s`}
@@ -509,4 +893,56 @@ const App: React.FC = () => {
   return null;
 };
 
-render(<App />, { stdin, stdout, stderr });
+// Non-interactive mode: no Ink UI, the runner logs progress line by line
+async function runPlain(cli: CliOptions) {
+  const testsDir = join(useBenchRoot(), "tests");
+  const suites = await findTestSuites(testsDir);
+  if (!cli.suite)
+    throw new Error(
+      `--suite is required in plain mode. Available suites: ${suites
+        .map((s) => basename(s.filePath, ".json"))
+        .join(", ")}`
+    );
+  const idx = findSuiteIndex(suites, cli.suite);
+  if (idx === -1) throw new Error(`Test suite not found: ${cli.suite}`);
+
+  const entry = suites[idx];
+  const suite = await loadSuiteFromFile(entry.filePath);
+
+  // Ctrl-C once cancels the run and still writes partial results; twice quits
+  const abortController = new AbortController();
+  process.on("SIGINT", () => {
+    if (abortController.signal.aborted) process.exit(130);
+    console.log(
+      "\nCancelling: aborting requests in flight, then writing partial results (Ctrl-C again to quit now)"
+    );
+    abortController.abort();
+  });
+
+  await testRunner({
+    suite,
+    suiteFilePath: entry.filePath,
+    version: cli.version ?? formatDefaultVersion(),
+    ...runnerOverrides(cli),
+    dryRun: cli.dryRun,
+    signal: abortController.signal,
+  });
+  if (abortController.signal.aborted) process.exitCode = 130;
+}
+
+let cli: CliOptions;
+try {
+  cli = parseCliArgs(process.argv.slice(2));
+} catch (e) {
+  console.error(`${(e as Error).message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+if (cli.plain || cli.dryRun || !process.stdout.isTTY) {
+  runPlain(cli).catch((e) => {
+    console.error(`Error: ${(e as Error).message}`);
+    process.exit(1);
+  });
+} else {
+  render(<App cli={cli} />, { stdin, stdout, stderr, exitOnCtrlC: false });
+}
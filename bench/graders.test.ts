@@ -0,0 +1,157 @@
+import { expect, test, describe } from "bun:test";
+import { grade, getGrader, resolveGraderSpec, tokenize } from "./graders";
+
+describe("Grader Registry", () => {
+  test("defaults to substring grading", () => {
+    expect(resolveGraderSpec({})).toEqual({ name: "substring" });
+  });
+
+  test("keeps grader options on the resolved spec", () => {
+    expect(
+      resolveGraderSpec({ grader: "numeric", grader_options: { tolerance: 1 } })
+    ).toEqual({ name: "numeric", options: { tolerance: 1 } });
+  });
+
+  test("uses the suite grader unless the test picks its own", () => {
+    const suite = { grader: "token" as const };
+    expect(resolveGraderSpec({}, suite)).toEqual({ name: "token" });
+    expect(resolveGraderSpec({ grader: "exact" }, suite)).toEqual({
+      name: "exact",
+    });
+  });
+
+  test("rejects grader options that can't grade the test", () => {
+    expect(() =>
+      resolveGraderSpec({ grader: "regex", answers: ["kick(flip"] })
+    ).toThrow(/cannot use pattern "kick\(flip"/);
+    expect(() =>
+      resolveGraderSpec({ answers: ["x"] }, { grader: "json-path" })
+    ).toThrow(/requires a "path" option/);
+    expect(
+      resolveGraderSpec({
+        grader: "json-path",
+        grader_options: { path: "$.trick" },
+        answers: ["x"],
+      })
+    ).toEqual({ name: "json-path", options: { path: "$.trick" } });
+  });
+
+  test("throws on unknown graders", () => {
+    expect(() => getGrader("telepathy")).toThrow(/Unknown grader/);
+    expect(() => resolveGraderSpec({ grader: "telepathy" as any })).toThrow(
+      /Unknown grader/
+    );
+  });
+});
+
+describe("Graders", () => {
+  test("substring matches inside longer trick names", () => {
+    const result = grade(
+      { name: "substring" },
+      { answers: ["kickflip"], result: "This is a backside kickflip" }
+    );
+    expect(result).toBe(true);
+  });
+
+  test("whole-word does not match inside longer words", () => {
+    const spec = { name: "whole-word" as const };
+    expect(
+      grade(spec, { answers: ["heel"], result: "That is a heelflip" })
+    ).toBe(false);
+    expect(
+      grade(spec, { answers: ["varial heel"], result: "A varial heel." })
+    ).toBe(true);
+  });
+
+  test("token strips markdown, hyphens and punctuation", () => {
+    expect(tokenize("This is a **Tre-Flip**!")).toEqual([
+      "this",
+      "is",
+      "a",
+      "tre",
+      "flip",
+    ]);
+    expect(tokenize("Don't")).toEqual(["dont"]);
+  });
+
+  test("token only matches full token sequences", () => {
+    const spec = { name: "token" as const };
+    expect(
+      grade(spec, { answers: ["tre flip"], result: "It's a **Tre-Flip**." })
+    ).toBe(true);
+    expect(
+      grade(spec, { answers: ["varial heel"], result: "A varial heelflip" })
+    ).toBe(false);
+    expect(
+      grade(spec, {
+        answers: ["inward heel"],
+        negative_answers: ["varial heel"],
+        result: "Inward heel (not a varial-heel)",
+      })
+    ).toBe(false);
+  });
+
+  test("regex uses answers as case-insensitive patterns", () => {
+    const spec = { name: "regex" as const };
+    expect(
+      grade(spec, { answers: ["^(tre|360) flip"], result: "Tre flip" })
+    ).toBe(true);
+    expect(
+      grade(spec, {
+        answers: ["tre flip"],
+        negative_answers: ["backside\\s+360"],
+        result: "tre flip aka backside 360 kickflip",
+      })
+    ).toBe(false);
+  });
+
+  test("exact ignores case, whitespace and trailing punctuation", () => {
+    const spec = { name: "exact" as const };
+    expect(
+      grade(spec, { answers: ["laser flip"], result: "  Laser   Flip. " })
+    ).toBe(true);
+    expect(
+      grade(spec, { answers: ["laser flip"], result: "It's a laser flip" })
+    ).toBe(false);
+  });
+
+  test("numeric compares extracted numbers within tolerance", () => {
+    expect(
+      grade(
+        { name: "numeric", options: { tolerance: 5 } },
+        { answers: ["360"], result: "About 358 degrees" }
+      )
+    ).toBe(true);
+    expect(
+      grade(
+        { name: "numeric" },
+        { answers: ["1000"], result: "Roughly 1,000 people" }
+      )
+    ).toBe(true);
+    expect(
+      grade({ name: "numeric" }, { answers: ["180"], result: "A 360" })
+    ).toBe(false);
+  });
+
+  test("json-path compares the value at the given path", () => {
+    const spec = {
+      name: "json-path" as const,
+      options: { path: "$.trick.name" },
+    };
+    expect(
+      grade(spec, {
+        answers: ["hardflip"],
+        result: '```json\n{ "trick": { "name": "Hardflip" } }\n```',
+      })
+    ).toBe(true);
+    expect(
+      grade(spec, { answers: ["hardflip"], result: "no json here" })
+    ).toBe(false);
+  });
+
+  test("json-path requires a path option", () => {
+    expect(() =>
+      grade({ name: "json-path" }, { answers: ["x"], result: "{}" })
+    ).toThrow(/path/);
+  });
+});
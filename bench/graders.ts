@@ -0,0 +1,269 @@
+export type GraderName =
+  | "substring"
+  | "whole-word"
+  | "token"
+  | "regex"
+  | "exact"
+  | "numeric"
+  | "json-path"
+  | "judge";
+
+export type GraderOptions = {
+  // numeric: absolute tolerance when comparing numbers (default 0)
+  tolerance?: number;
+  // json-path: path into the parsed JSON response, e.g. "$.trick.name" or "items[0]"
+  path?: string;
+  // regex: flags passed to RegExp (default "i")
+  flags?: string;
+};
+
+export type GraderSpec = {
+  name: GraderName;
+  options?: GraderOptions;
+};
+
+export type GradeInput = {
+  answers: string[];
+  negative_answers?: string[];
+  result: string;
+  options?: GraderOptions;
+};
+
+export type Grader = (input: GradeInput) => boolean;
+
+export const DEFAULT_GRADER: GraderName = "substring";
+
+// The judge grader calls a model, so it is handled by the runner instead of
+// the synchronous registry below.
+export const JUDGE_GRADER = "judge" satisfies GraderName;
+
+function escapeRegExp(str: string) {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function normalizeExact(str: string) {
+  return str
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/^["'`]+|["'`.!?]+$/g, "")
+    .trim();
+}
+
+// Lowercases and splits into word tokens, dropping markdown emphasis,
+// apostrophes and punctuation and treating hyphens/slashes as separators,
+// so "**Tre-Flip**" and "tre flip" produce the same tokens.
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/['’`]/g, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim()
+    .split(" ")
+    .filter((t) => t.length > 0);
+}
+
+function containsTokenSequence(haystack: string[], needle: string[]) {
+  if (needle.length === 0) return false;
+  outer: for (let i = 0; i + needle.length <= haystack.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return true;
+  }
+  return false;
+}
+
+// Negative answers always win: any negative match fails the response,
+// otherwise at least one positive answer has to match.
+function gradeWith(
+  input: GradeInput,
+  matches: (candidate: string) => boolean
+): boolean {
+  if (input.negative_answers?.some((answer) => matches(answer))) return false;
+  return input.answers.some((answer) => matches(answer));
+}
+
+function extractNumbers(text: string): number[] {
+  const found = text.replace(/(\d),(\d{3})/g, "$1$2").match(/-?\d+(?:\.\d+)?/g);
+  return (found || []).map((n) => parseFloat(n)).filter((n) => !isNaN(n));
+}
+
+function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidates = [fenced?.[1], text];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return JSON.parse(candidate.trim());
+    } catch {}
+    const start = candidate.search(/[[{]/);
+    if (start === -1) continue;
+    const end = Math.max(
+      candidate.lastIndexOf("}"),
+      candidate.lastIndexOf("]")
+    );
+    if (end <= start) continue;
+    try {
+      return JSON.parse(candidate.slice(start, end + 1));
+    } catch {}
+  }
+  return undefined;
+}
+
+function readJsonPath(value: unknown, path: string): unknown {
+  const segments = path
+    .replace(/^\$\.?/, "")
+    .replace(/\[(\d+)\]/g, ".$1")
+    .split(".")
+    .filter((s) => s.length > 0);
+  let current: any = value;
+  for (const segment of segments) {
+    if (current == null || typeof current !== "object") return undefined;
+    current = current[segment];
+  }
+  return current;
+}
+
+const substring: Grader = (input) => {
+  const resultLower = input.result.toLowerCase();
+  return gradeWith(input, (answer) =>
+    resultLower.includes(answer.toLowerCase())
+  );
+};
+
+const wholeWord: Grader = (input) =>
+  gradeWith(input, (answer) =>
+    new RegExp(`(^|\\W)${escapeRegExp(answer.trim())}(?=\\W|$)`, "i").test(
+      input.result
+    )
+  );
+
+const token: Grader = (input) => {
+  const tokens = tokenize(input.result);
+  return gradeWith(input, (answer) =>
+    containsTokenSequence(tokens, tokenize(answer))
+  );
+};
+
+const regex: Grader = (input) => {
+  const flags = input.options?.flags ?? "i";
+  return gradeWith(input, (pattern) =>
+    new RegExp(pattern, flags).test(input.result)
+  );
+};
+
+const exact: Grader = (input) => {
+  const normalized = normalizeExact(input.result);
+  return gradeWith(input, (answer) => normalizeExact(answer) === normalized);
+};
+
+const numeric: Grader = (input) => {
+  const tolerance = input.options?.tolerance ?? 0;
+  const numbers = extractNumbers(input.result);
+  return gradeWith(input, (answer) => {
+    const expected = parseFloat(answer);
+    if (isNaN(expected)) return false;
+    return numbers.some((n) => Math.abs(n - expected) <= tolerance);
+  });
+};
+
+const jsonPath: Grader = (input) => {
+  const path = input.options?.path;
+  if (!path) throw new Error(`Grader "json-path" requires a "path" option`);
+  const parsed = extractJson(input.result);
+  if (parsed === undefined) return false;
+  const value = readJsonPath(parsed, path);
+  if (value === undefined) return false;
+  const actual = normalizeExact(
+    typeof value === "string" ? value : JSON.stringify(value)
+  );
+  return gradeWith(input, (answer) => normalizeExact(answer) === actual);
+};
+
+const graders: Record<Exclude<GraderName, typeof JUDGE_GRADER>, Grader> = {
+  substring,
+  "whole-word": wholeWord,
+  token,
+  regex,
+  exact,
+  numeric,
+  "json-path": jsonPath,
+};
+
+export function isGraderName(name: string): name is GraderName {
+  return (
+    name === JUDGE_GRADER || Object.prototype.hasOwnProperty.call(graders, name)
+  );
+}
+
+function assertGraderName(name: string): asserts name is GraderName {
+  if (!isGraderName(name))
+    throw new Error(
+      `Unknown grader "${name}". Available graders: ${[
+        ...Object.keys(graders),
+        JUDGE_GRADER,
+      ].join(", ")}`
+    );
+}
+
+export function getGrader(name: string): Grader {
+  assertGraderName(name);
+  if (name === JUDGE_GRADER)
+    throw new Error(
+      `Grader "${JUDGE_GRADER}" needs a judge model and cannot be run synchronously`
+    );
+  return graders[name];
+}
+
+type GraderFields = {
+  grader?: GraderName;
+  grader_options?: GraderOptions;
+};
+
+// Option mistakes would otherwise only surface when the first response is
+// graded, after the model call has been paid for
+function validateGraderSpec(spec: GraderSpec, answers: string[]) {
+  if (spec.name === "json-path" && !spec.options?.path)
+    throw new Error(`Grader "json-path" requires a "path" option`);
+  if (spec.name === "regex") {
+    const flags = spec.options?.flags ?? "i";
+    for (const pattern of answers.length > 0 ? answers : [""]) {
+      try {
+        new RegExp(pattern, flags);
+      } catch (error) {
+        throw new Error(
+          `Grader "regex" cannot use pattern "${pattern}" with flags "${flags}": ${
+            (error as Error).message
+          }`
+        );
+      }
+    }
+  }
+}
+
+// A test's own grader wins over the suite default; options only carry over
+// from the suite when the test does not pick a grader of its own. The test's
+// answers are checked against the grader's options.
+export function resolveGraderSpec(
+  test: GraderFields & { answers?: string[]; negative_answers?: string[] },
+  suite?: GraderFields
+): GraderSpec {
+  const source = test.grader ? test : suite?.grader ? suite : test;
+  const name = source.grader || DEFAULT_GRADER;
+  assertGraderName(name);
+  const options = test.grader_options ?? source.grader_options;
+  const spec: GraderSpec = options ? { name, options } : { name };
+  validateGraderSpec(spec, [
+    ...(test.answers ?? []),
+    ...(test.negative_answers ?? []),
+  ]);
+  return spec;
+}
+
+export function grade(
+  spec: GraderSpec,
+  input: Omit<GradeInput, "options">
+): boolean {
+  return getGrader(spec.name)({ ...input, options: spec.options });
+}
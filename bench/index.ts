@@ -1,21 +1,83 @@
 import {
   modelsToRun,
+  judgeModel,
   type RunnableModel,
   MAX_CONCURRENCY,
   TEST_RUNS_PER_MODEL,
   TIMEOUT_SECONDS,
   OUTPUT_DIRECTORY,
+  RETRY_POLICY,
+  PROVIDER_LIMITS,
 } from "./constants";
 import { generateText } from "ai";
 import { mkdir, writeFile, readdir, readFile as fsReadFile } from "fs/promises";
 import { existsSync } from "fs";
-import { join, basename, extname } from "path";
+import { join, basename, extname, resolve } from "path";
 import { createHash } from "crypto";
+import {
+  DEFAULT_GRADER,
+  JUDGE_GRADER,
+  grade,
+  resolveGraderSpec,
+  type GraderName,
+  type GraderOptions,
+  type GraderSpec,
+} from "./graders";
+import { judgeResponse, type JudgeVerdict } from "./judge";
+import {
+  expandSweep,
+  validateSweep,
+  type ModelVariant,
+  type SweepDefinition,
+} from "./sweep";
+import { createScheduler, type ConcurrencyLimits } from "./scheduler";
+import { type ProviderName } from "./providers";
+import { validateLimits } from "./registry";
+import {
+  classifyError,
+  formatErrorBreakdown,
+  withRetry,
+  type ErrorClass,
+  type ErrorDetails,
+  type RetryPolicy,
+} from "./retry";
+import {
+  openCacheStore,
+  openExistingCacheStore,
+  type StoredCacheEntry,
+} from "./cache-store";
+import {
+  createRunId,
+  readRunManifest,
+  writeRunManifest,
+  type RunManifest,
+} from "./runs";
+import {
+  estimatePlan,
+  formatPlanTable,
+  type HistoryEntry,
+  type PlanEstimate,
+} from "./plan";
+import {
+  generationFingerprint,
+  generationParams,
+  legacyGenerationFingerprint,
+  resolveCost,
+  toTokenUsage,
+  withTimeout,
+  type CostSource,
+  type GenerationFingerprint,
+  type TokenUsage,
+} from "./llm";
 
 export type TestCase = {
   prompt: string;
   answers: string[];
   negative_answers?: string[];
+  grader?: GraderName;
+  grader_options?: GraderOptions;
+  // Grading instructions for the "judge" grader
+  rubric?: string;
 };
 
 export type TestSuite = {
@@ -23,15 +85,30 @@ export type TestSuite = {
   name: string;
   description?: string;
   system_prompt: string;
+  grader?: GraderName;
+  grader_options?: GraderOptions;
+  // Suite-level defaults, overridden by TestRunnerOptions
+  runs_per_model?: number;
+  max_concurrency?: number;
+  timeout_seconds?: number;
+  max_attempts?: number;
+  // Parameter grid each model is expanded over, overridden by TestRunnerOptions
+  sweep?: SweepDefinition;
   tests: TestCase[];
 };
 
+// Which versions' cached answers a run may reuse besides its own
+export type CacheReusePolicy =
+  "sameVersion" | "anyVersion" | { versions: string[] };
+
 type WorkItem = {
   model: RunnableModel;
   system_prompt: string;
   prompt: string;
   answers: string[];
   negative_answers?: string[];
+  grader: GraderSpec;
+  rubric?: string;
   originalTestIndex: number;
 };
 
@@ -41,18 +118,77 @@ type PreviousResultEntry = {
   expectedAnswers: string[];
   negativeAnswers?: string[];
   text: string;
+  reasoning?: string;
   correct?: boolean;
   duration?: number;
   cost?: number;
+  costSource?: CostSource;
+  usage?: TokenUsage;
+  variant?: ModelVariant;
+  attempts?: number;
+  // Run that produced the answer, when known
+  runId?: string;
+  // Version namespace the answer was stored under
+  version: string;
+  // Unset on answers recorded before it was part of the cache key
+  generation?: GenerationFingerprint;
   sourceFile: string;
   systemPrompt?: string;
+  grader?: GraderSpec;
+  judge?: JudgeVerdict;
+  // Set when the answer was stored without a verdict
+  gradingError?: string;
+};
+
+type TestResult = {
+  model: string;
+  testIndex: number;
+  runNumber: number;
+  prompt: string;
+  expectedAnswers: string[];
+  negativeAnswers?: string[];
+  grader: GraderSpec;
+  result?: any;
+  error?: string;
+  errorDetails?: ErrorDetails;
+  duration: number;
+  cost: number;
+  costSource?: CostSource;
+  usage?: TokenUsage;
+  variant?: ModelVariant;
+  // Tries it took, when more than one
+  attempts?: number;
+  // Set on jobs that were never run, or cut off by cancellation
+  skipped?: "budget" | "cancelled";
+  // The answer is kept but couldn't be graded (e.g. the judge call failed)
+  gradingError?: string;
+};
+
+type RunConfig = {
+  maxConcurrency: number;
+  testRunsPerModel: number;
+  timeoutSeconds: number;
+  outputDirectory: string;
+  retry: RetryPolicy;
+  providerLimits: Partial<Record<ProviderName, ConcurrencyLimits>>;
+  // Spending ceilings in USD; unset means no limit
+  maxTotalCost?: number;
+  maxCostPerModel?: number;
+  cacheReuse: CacheReusePolicy;
 };
 
 export type RunnerPlanEvent = {
   type: "plan";
+  runId: string;
   totals: Record<string, { total: number; execute: number; reuse: number }>;
 };
 
+// Dry runs only: the plan priced from cached history
+export type RunnerEstimateEvent = {
+  type: "estimate";
+  estimate: PlanEstimate;
+};
+
 export type RunnerStartEvent = {
   type: "start";
   model: string;
@@ -63,7 +199,10 @@ export type RunnerDoneEvent = {
   model: string;
   duration: number;
   correct: boolean;
+  // Includes the judge's charge for grading the answer
   cost: number;
+  costSource?: CostSource;
+  gradingError?: string;
 };
 
 export type RunnerErrorEvent = {
@@ -71,6 +210,35 @@ export type RunnerErrorEvent = {
   model: string;
   duration: number;
   error: string;
+  errorClass: ErrorClass;
+};
+
+// A spending ceiling was reached and the remaining jobs in its scope skipped
+export type RunnerBudgetEvent = {
+  type: "budget";
+  scope: "total" | "model";
+  model?: string;
+  spent: number;
+  limit: number;
+  skipped: Record<string, number>;
+};
+
+// The run's signal was aborted: queued jobs were dropped and in-flight ones
+// cut off. Sent again for each in-flight job that ends up cancelled.
+export type RunnerCancelEvent = {
+  type: "cancel";
+  skipped: Record<string, number>;
+};
+
+// A transient failure that will be tried again after delayMs
+export type RunnerRetryEvent = {
+  type: "retry";
+  model: string;
+  // The judge call grading the model's answer failed, not the model's
+  judge?: boolean;
+  attempt: number;
+  delayMs: number;
+  error: string;
 };
 
 export type RunnerReuseEvent = {
@@ -78,13 +246,19 @@ export type RunnerReuseEvent = {
   model: string;
   correct: boolean;
   cost: number;
+  costSource?: CostSource;
+  gradingError?: string;
 };
 
 export type RunnerEvent =
   | RunnerPlanEvent
+  | RunnerEstimateEvent
   | RunnerStartEvent
   | RunnerDoneEvent
   | RunnerErrorEvent
+  | RunnerRetryEvent
+  | RunnerBudgetEvent
+  | RunnerCancelEvent
   | RunnerReuseEvent;
 
 function computeSuiteId(
@@ -99,15 +273,63 @@ function computeSuiteId(
     .replace(/^-+|-+$/g, "");
 }
 
+// Grader per test, resolved up front so a bad grader option fails the run
+// before any model is called
+function resolveSuiteGraders(suite: TestSuite): GraderSpec[] {
+  return suite.tests.map((test, testIndex) => {
+    try {
+      return resolveGraderSpec(test, suite);
+    } catch (error) {
+      throw new Error(
+        `Test ${testIndex + 1} of suite "${suite.name}": ${(error as Error).message}`
+      );
+    }
+  });
+}
+
+function resolveSuiteId(suite: TestSuite, suiteFilePath?: string) {
+  return computeSuiteId(
+    suite.id ||
+      (suiteFilePath
+        ? basename(suiteFilePath, extname(suiteFilePath))
+        : undefined),
+    suite.name
+  );
+}
+
+// Object keys sorted at every level, so equal settings serialize the same
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === "object")
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys((value as any)[key])])
+    );
+  return value;
+}
+
+// The cache key: what the model was asked and how it was called
 function computeTestSignature(input: {
   system_prompt: string;
   prompt: string;
-  answers: string[];
-  negative_answers?: string[];
+  generation?: GenerationFingerprint;
 }) {
   const normalized = {
     system_prompt: input.system_prompt.trim(),
     prompt: input.prompt.trim(),
+    generation: input.generation ? sortKeys(input.generation) : null,
+  };
+  return JSON.stringify(normalized);
+}
+
+// What an answer is graded against. Kept out of the cache key, so editing a
+// test's answers re-grades stored responses instead of running them again.
+function computeGradingSignature(input: {
+  answers: string[];
+  negative_answers?: string[];
+}) {
+  const normalized = {
     answers: [...input.answers].map((a) => a.trim().toLowerCase()).sort(),
     negative_answers: (input.negative_answers || [])
       .map((a) => a.trim().toLowerCase())
@@ -116,104 +338,154 @@ function computeTestSignature(input: {
   return JSON.stringify(normalized);
 }
 
+// Reused answers graded against a different answer list than they were
+// stored with
+function answersChanged(
+  entry: PreviousResultEntry,
+  test: { answers: string[]; negative_answers?: string[] }
+) {
+  return (
+    computeGradingSignature({
+      answers: entry.expectedAnswers,
+      negative_answers: entry.negativeAnswers,
+    }) !== computeGradingSignature(test)
+  );
+}
+
+// The settings an answer was requested with. Answers from before they were
+// recorded get the ones every request was sent with back then.
+function storedGeneration(payload: any): GenerationFingerprint | undefined {
+  return payload.generation ?? legacyGenerationFingerprint(payload.model);
+}
+
 function signatureHash(signature: string) {
   return createHash("sha1").update(signature).digest("hex").slice(0, 12);
 }
 
-function safeFilename(str: string) {
-  return str.replace(/[^a-zA-Z0-9._-]/g, "_");
+// Changes whenever anything in the suite definition does
+function suiteHash(suite: TestSuite) {
+  return createHash("sha1")
+    .update(JSON.stringify(suite))
+    .digest("hex")
+    .slice(0, 12);
 }
 
 function isCorrect(input: {
   answers: string[];
   negative_answers?: string[];
+  grader: GraderSpec;
   result: string;
 }) {
-  const resultLower = input.result.toLowerCase();
+  return grade(input.grader, {
+    answers: input.answers,
+    negative_answers: input.negative_answers,
+    result: input.result,
+  });
+}
 
-  if (input.negative_answers) {
-    if (
-      input.negative_answers.some((answer) =>
-        resultLower.includes(answer.toLowerCase())
-      )
-    ) {
-      return false;
-    }
+// Verdicts cached before they moved into the store, imported by the migration
+function judgeCacheDir(outputDirectory: string) {
+  return join(outputDirectory, "cache", "_judge");
+}
+
+async function gradeResponse(input: {
+  answers: string[];
+  negative_answers?: string[];
+  grader: GraderSpec;
+  rubric?: string;
+  prompt: string;
+  text: string;
+  judge: RunnableModel;
+  timeoutSeconds: number;
+  outputDirectory: string;
+  offline?: boolean;
+  retry?: RetryPolicy;
+  onRetry?: (info: {
+    attempt: number;
+    delayMs: number;
+    error: unknown;
+  }) => void;
+  signal?: AbortSignal;
+}): Promise<{ correct: boolean; judge?: JudgeVerdict }> {
+  if (input.grader.name !== JUDGE_GRADER) {
+    return {
+      correct: isCorrect({
+        answers: input.answers,
+        negative_answers: input.negative_answers,
+        grader: input.grader,
+        result: input.text,
+      }),
+    };
   }
-  return input.answers.some((answer) =>
-    resultLower.includes(answer.toLowerCase())
-  );
+
+  const verdict = await judgeResponse({
+    judge: input.judge,
+    prompt: input.prompt,
+    response: input.text,
+    rubric: input.rubric,
+    answers: input.answers,
+    negative_answers: input.negative_answers,
+    timeoutSeconds: input.timeoutSeconds,
+    // Offline grading only reads, so it doesn't create a store
+    cache: input.offline
+      ? openExistingCacheStore(input.outputDirectory)
+      : openCacheStore(input.outputDirectory),
+    offline: input.offline,
+    retry: input.retry,
+    onRetry: input.onRetry,
+    signal: input.signal,
+  });
+  return { correct: verdict.correct, judge: verdict };
 }
 
+// Gets the model's answer; grading it is left to the caller
 async function runTest(input: {
   model: RunnableModel;
   system_prompt: string;
   prompt: string;
-  answers: string[];
-  negative_answers?: string[];
-  originalTestIndex: number;
+  timeoutSeconds: number;
   silent?: boolean;
+  signal?: AbortSignal;
 }) {
-  const { model, system_prompt, prompt, answers, negative_answers, silent } =
+  const { model, system_prompt, prompt, timeoutSeconds, silent, signal } =
     input;
 
-  let timeoutId: NodeJS.Timeout | undefined;
-  const timeoutPromise = new Promise((_, reject) => {
-    timeoutId = setTimeout(
-      () => reject(new Error("Test timeout")),
-      TIMEOUT_SECONDS * 1000
-    );
-  });
-
   async function internal__testRun() {
+    const { temperature, providerOptions } = generationParams(model);
     const testResult = await generateText({
       model: model.llm,
       system: system_prompt,
       prompt,
-
-      temperature: 1.0,
-      providerOptions: {
-        openrouter: {
-          reasoning: {
-            max_tokens: 2048,
-          },
-        },
-        xai: {
-          reasoningEffort: "high",
-        },
-      },
-    });
-
-    const correctness = isCorrect({
-      answers,
-      negative_answers,
-      result: testResult.text,
+      temperature,
+      providerOptions,
+      // Retries are handled by the runner's retry policy
+      maxRetries: 0,
+      abortSignal: signal,
     });
-
-    let cost = 0;
-    if (testResult.providerMetadata) {
-      const openrouterMeta = testResult.providerMetadata.openrouter as any;
-      if (openrouterMeta?.usage?.cost) {
-        cost = openrouterMeta.usage.cost;
-      }
-    }
+    // A blocked answer isn't the model's answer, so it isn't graded
+    if (testResult.finishReason === "content-filter")
+      throw new Error("Response blocked by the provider's content filter");
 
     return {
       model: model.name,
       prompt,
       result: testResult,
-      correct: correctness,
-      cost,
+      reasoning: testResult.reasoningText,
+      usage: toTokenUsage(testResult.usage),
+      ...resolveCost({
+        providerMetadata: testResult.providerMetadata,
+        usage: testResult.usage,
+        provider: model.provider,
+        pricing: model.pricing,
+      }),
     };
   }
 
   try {
-    const result = await Promise.race([internal__testRun(), timeoutPromise]);
-    if (timeoutId) clearTimeout(timeoutId);
-    return result;
+    return await withTimeout(internal__testRun(), timeoutSeconds);
   } catch (error) {
-    if (timeoutId) clearTimeout(timeoutId);
-    if (!silent) console.error(`Test failed for model ${model.name}:`, error);
+    if (!silent && !signal?.aborted)
+      console.error(`Test failed for model ${model.name}:`, error);
     throw error;
   }
 }
@@ -226,44 +498,105 @@ function extractTextFromStoredResult(resultObj: any): string | undefined {
   return undefined;
 }
 
-async function findPreviousResultsForSuite(options: {
+async function walkJsonFiles(dir: string): Promise<string[]> {
+  const acc: string[] = [];
+  try {
+    const entries = await readdir(dir, { withFileTypes: true });
+    for (const entry of entries) {
+      const full = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        acc.push(...(await walkJsonFiles(full)));
+      } else if (
+        entry.isFile() &&
+        entry.name.endsWith(".json") &&
+        !entry.name.startsWith("summary-")
+      ) {
+        acc.push(full);
+      }
+    }
+  } catch {}
+  return acc;
+}
+
+// Namespace of a version in the cache store (and the old cache directories)
+function cacheVersionKey(version?: string) {
+  return version || "unversioned";
+}
+
+// Where per-run cache files lived before the indexed store
+function legacyCacheDirFor(
+  outputDirectory: string,
+  suiteId: string,
+  version?: string
+) {
+  return join(outputDirectory, "cache", suiteId, cacheVersionKey(version));
+}
+
+// Skips non-usable entries: errors, which are never reused, and entries
+// with missing fields
+function entryFromCachePayload(
+  row: StoredCacheEntry,
+  storePath: string
+): PreviousResultEntry | undefined {
+  const parsed = row.payload;
+  if (!parsed || row.error || parsed.error) return undefined;
+  const model: string | undefined = parsed.model;
+  const prompt: string | undefined = parsed.prompt;
+  const expectedAnswers: string[] | undefined =
+    parsed.answers || parsed.expectedAnswers;
+  const negativeAnswers: string[] | undefined =
+    parsed.negative_answers || parsed.negativeAnswers;
+  const systemPrompt: string | undefined =
+    parsed.system_prompt || parsed.systemPrompt;
+  const text = extractTextFromStoredResult(parsed.result) || parsed.text;
+  if (!model || !prompt || !expectedAnswers || !text) return undefined;
+
+  return {
+    model,
+    prompt,
+    expectedAnswers,
+    negativeAnswers,
+    text,
+    reasoning: parsed.result?.reasoning,
+    correct: parsed.result?.correct ?? parsed.correct,
+    duration: parsed.duration,
+    cost: parsed.cost,
+    costSource: parsed.costSource,
+    usage: toTokenUsage(parsed.usage),
+    variant: parsed.variant,
+    attempts: parsed.attempts,
+    runId: parsed.runId,
+    version: row.version,
+    generation: storedGeneration(parsed),
+    sourceFile: `${storePath}#${row.id}`,
+    systemPrompt,
+    grader: parsed.grader,
+    judge: parsed.judge,
+    gradingError: parsed.gradingError,
+  };
+}
+
+// Reads every stored answer for a suite/version, for re-grading: results
+// files first, then entries from the cache store. Malformed entries are
+// skipped.
+async function loadStoredEntries(options: {
   suiteId: string;
   suite: TestSuite;
   version?: string;
-}): Promise<Map<string, PreviousResultEntry[]>> {
-  const { suiteId, suite, version } = options;
-  const resultsRoot = OUTPUT_DIRECTORY;
-  const map = new Map<string, PreviousResultEntry[]>();
-
-  async function walk(dir: string): Promise<string[]> {
-    const acc: string[] = [];
-    try {
-      const entries = await readdir(dir, { withFileTypes: true });
-      for (const entry of entries) {
-        const full = join(dir, entry.name);
-        if (entry.isDirectory()) {
-          acc.push(...(await walk(full)));
-        } else if (
-          entry.isFile() &&
-          entry.name.endsWith(".json") &&
-          !entry.name.startsWith("summary-")
-        ) {
-          acc.push(full);
-        }
-      }
-    } catch {}
-    return acc;
-  }
+  outputDirectory: string;
+}): Promise<PreviousResultEntry[]> {
+  const { suiteId, suite, version, outputDirectory } = options;
+  const entries: PreviousResultEntry[] = [];
 
   const suiteDirForVersion = join(
-    resultsRoot,
+    outputDirectory,
     suiteId,
     version || "unversioned"
   );
 
   const discoveredJsonFiles = new Set<string>();
   {
-    const files = await walk(suiteDirForVersion).catch(() => []);
+    const files = await walkJsonFiles(suiteDirForVersion).catch(() => []);
     files.forEach((f) => discoveredJsonFiles.add(f));
   }
 
@@ -280,6 +613,7 @@ async function findPreviousResultsForSuite(options: {
       if ((version || null) !== versionInFile) continue;
 
       for (const r of parsed.results) {
+        if (r.error || r.skipped) continue;
         const prompt: string | undefined = r.prompt;
         const expectedAnswers: string[] | undefined = r.expectedAnswers;
         const negativeAnswers: string[] | undefined =
@@ -288,120 +622,336 @@ async function findPreviousResultsForSuite(options: {
         const text = extractTextFromStoredResult(r.result);
         if (!prompt || !expectedAnswers || !model || !text) continue;
 
-        const signature = computeTestSignature({
-          system_prompt: suite.system_prompt,
-          prompt,
-          answers: expectedAnswers,
-          negative_answers: negativeAnswers,
-        });
-
-        const entry: PreviousResultEntry = {
+        entries.push({
           model,
           prompt,
           expectedAnswers,
           negativeAnswers,
           text,
+          reasoning: r.result?.reasoning ?? r.result?.result?.reasoningText,
           correct: r.result?.correct ?? r.correct,
           duration: r.duration,
           cost: r.cost,
+          costSource: r.costSource,
+          usage: toTokenUsage(r.usage ?? r.result?.result?.usage),
+          variant: r.variant,
+          attempts: r.attempts,
+          runId: parsed.metadata?.runId,
+          version: cacheVersionKey(version),
+          generation: parsed.metadata?.generation?.[model],
           sourceFile: file,
-        };
-        const list = map.get(signature) || [];
-        list.push(entry);
-        map.set(signature, list);
+          grader: r.grader,
+          judge: r.result?.judge,
+          gradingError: r.gradingError,
+        });
       }
     } catch {}
   }
 
-  // Also include per-run cache files, namespaced by version
-  const cacheDir = join(
-    resultsRoot,
-    "cache",
-    suiteId,
-    version || "unversioned"
-  );
-  const cacheFiles = await walk(cacheDir).catch(() => []);
-  for (const file of cacheFiles) {
-    try {
-      const raw = await fsReadFile(file, "utf-8");
-      const parsed = JSON.parse(raw);
+  // Also include per-run cache entries, namespaced by version
+  const store = openExistingCacheStore(outputDirectory);
+  if (store)
+    for (const row of store.find({
+      suiteId,
+      version: cacheVersionKey(version),
+    })) {
+      const entry = entryFromCachePayload(row, store.path);
+      if (entry) entries.push(entry);
+    }
 
-      const model: string | undefined = parsed.model;
-      const prompt: string | undefined = parsed.prompt;
-      const expectedAnswers: string[] | undefined =
-        parsed.answers || parsed.expectedAnswers;
-      const negativeAnswers: string[] | undefined =
-        parsed.negative_answers || parsed.negativeAnswers;
-      const systemPrompt: string | undefined =
-        parsed.system_prompt || parsed.systemPrompt;
-      const text = extractTextFromStoredResult(parsed.result) || parsed.text;
+  return entries;
+}
 
-      // Skip non-usable entries (e.g., errors or missing fields)
-      if (!model || !prompt || !expectedAnswers || !text) continue;
+// Cost and duration of every successful cached request, across all suites
+// and versions, for dry-run estimates
+function loadRequestHistory(outputDirectory: string): HistoryEntry[] {
+  return openExistingCacheStore(outputDirectory)?.requestCosts() ?? [];
+}
 
-      const signature = computeTestSignature({
-        system_prompt: systemPrompt || suite.system_prompt,
-        prompt,
-        answers: expectedAnswers,
-        negative_answers: negativeAnswers,
-      });
+function storedEntryKey(entry: PreviousResultEntry) {
+  return JSON.stringify([
+    entry.model,
+    entry.prompt.trim(),
+    entry.text,
+    entry.duration ?? null,
+  ]);
+}
 
-      // Safety: if the cache contains system prompt and it differs from the current suite, surface an error
-      if (systemPrompt && systemPrompt !== suite.system_prompt) {
-        throw new Error(
-          `Cached entry system prompt mismatch for ${basename(
-            file
-          )}. Expected current suite system prompt. Delete '${join(
-            resultsRoot,
-            "cache",
-            suiteId,
-            version || "unversioned"
-          )}' to reset cache.`
-        );
-      }
+// Run ids start with their start time; legacy answers without one go first
+function compareStoredEntries(a: PreviousResultEntry, b: PreviousResultEntry) {
+  return (
+    (a.runId ?? "").localeCompare(b.runId ?? "") ||
+    a.sourceFile.localeCompare(b.sourceFile) ||
+    a.text.localeCompare(b.text) ||
+    (a.duration ?? 0) - (b.duration ?? 0)
+  );
+}
 
-      const entry: PreviousResultEntry = {
-        model,
-        prompt,
-        expectedAnswers,
-        negativeAnswers,
-        text,
-        correct: parsed.result?.correct ?? parsed.correct,
-        duration: parsed.duration,
-        cost: parsed.cost,
-        sourceFile: file,
-        systemPrompt,
-      };
-      const list = map.get(signature) || [];
-      list.push(entry);
-      map.set(signature, list);
-    } catch (e) {
-      // If a mismatch error was thrown above, rethrow to stop the run
-      if (e instanceof Error) throw e;
-      // Otherwise ignore malformed cache files
+// Cached answers each work item can reuse, looked up by suite, version,
+// signature hash and model. The signature covers the system prompt, the
+// prompt and the generation settings, so nothing else needs checking.
+function findReusableAnswers(options: {
+  suiteId: string;
+  items: WorkItem[];
+  version?: string;
+  outputDirectory: string;
+  // Answers from this run are reused first, so a resumed run picks up
+  // exactly where it stopped
+  runId?: string;
+  reuse?: CacheReusePolicy;
+  silent?: boolean;
+}): Map<WorkItem, PreviousResultEntry[]> {
+  const { suiteId, items, version, outputDirectory, runId } = options;
+  const reuse = options.reuse ?? "sameVersion";
+  const currentVersion = cacheVersionKey(version);
+  const found = new Map<WorkItem, PreviousResultEntry[]>();
+  const store = openExistingCacheStore(outputDirectory);
+  if (!store) return found;
+
+  // This version first, then the others in the order the policy lists
+  // them; undefined stands for every other version
+  const versions: Array<string | undefined> =
+    reuse === "sameVersion"
+      ? [currentVersion]
+      : reuse === "anyVersion"
+        ? [currentVersion, undefined]
+        : [
+            ...new Set([
+              currentVersion,
+              ...reuse.versions.map(cacheVersionKey),
+            ]),
+          ];
+
+  const plannedByModel = new Map<string, Set<string>>();
+  for (const item of items) {
+    const generation = generationFingerprint(item.model);
+    const signature = (generation?: GenerationFingerprint) =>
+      signatureHash(
+        computeTestSignature({
+          system_prompt: item.system_prompt,
+          prompt: item.prompt,
+          generation,
+        })
+      );
+    const hashes = [signature(generation)];
+    // Entries imported before migration filled in the settings are keyed
+    // without them; they match while the model is still called as then
+    const legacy = legacyGenerationFingerprint(item.model.name);
+    if (
+      legacy &&
+      JSON.stringify(sortKeys(legacy)) === JSON.stringify(sortKeys(generation))
+    )
+      hashes.push(signature(undefined));
+    const planned = plannedByModel.get(item.model.name) ?? new Set<string>();
+    for (const hash of hashes) planned.add(hash);
+    plannedByModel.set(item.model.name, planned);
+
+    const entries: PreviousResultEntry[] = [];
+    for (const v of versions) {
+      for (const row of hashes.flatMap((hash) =>
+        store.find({
+          suiteId,
+          version: v,
+          signatureHash: hash,
+          model: item.model.name,
+        })
+      )) {
+        if (v === undefined && row.version === currentVersion) continue;
+        const entry = entryFromCachePayload(row, store.path);
+        if (entry) entries.push(entry);
+      }
     }
+    if (runId)
+      entries.sort(
+        (a, b) => Number(b.runId === runId) - Number(a.runId === runId)
+      );
+    found.set(item, entries);
   }
 
-  return map;
+  // This version's answers that no planned job matches
+  let unmatched = 0;
+  for (const [model, planned] of plannedByModel)
+    unmatched += store
+      .signatureHashes({ suiteId, version: currentVersion, model })
+      .filter((hash) => !planned.has(hash)).length;
+  if (unmatched > 0 && !options.silent)
+    console.warn(
+      `Not reusing ${unmatched} cached answer${unmatched === 1 ? "" : "s"} for this version recorded for another prompt or system prompt, or with different generation settings (model id, temperature, reasoning or provider options). List them with: bun run cache verify ${suiteId}`
+    );
+
+  return found;
+}
+
+// Results from before error classes were recorded count as "unknown"
+function countErrorClass(
+  counts: Partial<Record<ErrorClass, number>>,
+  result: TestResult
+) {
+  const errorClass = result.errorDetails?.class ?? "unknown";
+  counts[errorClass] = (counts[errorClass] ?? 0) + 1;
+}
+
+// What the judge charged for a verdict; cached verdicts cost nothing this run
+function judgeCost(verdict?: JudgeVerdict) {
+  return verdict && !verdict.cached ? verdict.cost : 0;
+}
+
+function computeModelRankings(results: TestResult[]) {
+  const modelStats = results.reduce(
+    (acc, result) => {
+      if (!acc[result.model]) {
+        acc[result.model] = {
+          correct: 0,
+          incorrect: 0,
+          errors: 0,
+          errorsByClass: {},
+          ungraded: 0,
+          totalDuration: 0,
+          totalTests: 0,
+          totalCost: 0,
+          estimatedCostTests: 0,
+          usageTests: 0,
+          usageCorrect: 0,
+          inputTokens: 0,
+          outputTokens: 0,
+          reasoningTokens: 0,
+          skipped: 0,
+          variant: result.variant,
+        };
+      }
+      if (result.skipped) {
+        acc[result.model].skipped++;
+        return acc;
+      }
+      acc[result.model].totalTests++;
+      if (result.error) {
+        acc[result.model].errors++;
+        countErrorClass(acc[result.model].errorsByClass, result);
+      } else if (result.gradingError) {
+        acc[result.model].ungraded++;
+      } else if (result.result?.correct) {
+        acc[result.model].correct++;
+      } else {
+        acc[result.model].incorrect++;
+      }
+      acc[result.model].totalDuration += result.duration;
+      acc[result.model].totalCost +=
+        result.cost + judgeCost(result.result?.judge);
+      if (result.costSource === "estimated")
+        acc[result.model].estimatedCostTests++;
+      if (result.usage && !result.error) {
+        acc[result.model].usageTests++;
+        if (result.result?.correct) acc[result.model].usageCorrect++;
+        acc[result.model].inputTokens += result.usage.inputTokens ?? 0;
+        acc[result.model].outputTokens += result.usage.outputTokens ?? 0;
+        acc[result.model].reasoningTokens += result.usage.reasoningTokens ?? 0;
+      }
+      return acc;
+    },
+    {} as Record<
+      string,
+      {
+        correct: number;
+        incorrect: number;
+        errors: number;
+        errorsByClass: Partial<Record<ErrorClass, number>>;
+        ungraded: number;
+        totalDuration: number;
+        totalTests: number;
+        totalCost: number;
+        estimatedCostTests: number;
+        usageTests: number;
+        usageCorrect: number;
+        inputTokens: number;
+        outputTokens: number;
+        reasoningTokens: number;
+        skipped: number;
+        variant?: ModelVariant;
+      }
+    >
+  );
+
+  return Object.entries(modelStats)
+    .map(([modelName, stats]) => ({
+      model: modelName,
+      // Sweep variants name the model they were expanded from
+      baseModel: stats.variant?.baseModel,
+      variant: stats.variant?.params,
+      correct: stats.correct,
+      incorrect: stats.incorrect,
+      errors: stats.errors,
+      errorsByClass: stats.errorsByClass,
+      ungraded: stats.ungraded,
+      totalTests: stats.totalTests,
+      skipped: stats.skipped,
+      successRate:
+        stats.totalTests > 0 ? (stats.correct / stats.totalTests) * 100 : 0,
+      errorRate:
+        stats.totalTests > 0 ? (stats.errors / stats.totalTests) * 100 : 0,
+      averageDuration:
+        stats.totalTests > 0
+          ? Math.round(stats.totalDuration / stats.totalTests)
+          : 0,
+      totalCost: stats.totalCost,
+      averageCostPerTest:
+        stats.totalTests > 0 ? stats.totalCost / stats.totalTests : 0,
+      // Runs whose cost came from the pricing table rather than the provider
+      estimatedCostTests: stats.estimatedCostTests,
+      // Token averages cover the runs that reported usage; null when none did
+      averageInputTokens:
+        stats.usageTests > 0 ? stats.inputTokens / stats.usageTests : null,
+      averageOutputTokens:
+        stats.usageTests > 0 ? stats.outputTokens / stats.usageTests : null,
+      averageReasoningTokens:
+        stats.usageTests > 0 ? stats.reasoningTokens / stats.usageTests : null,
+      outputTokensPerCorrect:
+        stats.usageCorrect > 0 ? stats.outputTokens / stats.usageCorrect : null,
+    }))
+    .sort((a, b) => {
+      if (b.successRate !== a.successRate) {
+        return b.successRate - a.successRate;
+      }
+      return a.averageDuration - b.averageDuration;
+    });
+}
+
+type ModelRanking = ReturnType<typeof computeModelRankings>[number];
+
+// Sweep variants side by side under their base model, in grid order
+function groupVariants(rankings: ModelRanking[]) {
+  const groups = new Map<string, ModelRanking[]>();
+  for (const r of rankings) {
+    if (!r.baseModel) continue;
+    groups.set(r.baseModel, [...(groups.get(r.baseModel) || []), r]);
+  }
+  return [...groups].map(([baseModel, variants]) => ({
+    baseModel,
+    variants: variants
+      .sort((a, b) => a.model.localeCompare(b.model, "en", { numeric: true }))
+      .map((v) => ({
+        model: v.model,
+        params: v.variant!,
+        successRate: v.successRate,
+        errorRate: v.errorRate,
+        averageDuration: v.averageDuration,
+        averageCostPerTest: v.averageCostPerTest,
+        averageOutputTokens: v.averageOutputTokens,
+        averageReasoningTokens: v.averageReasoningTokens,
+      })),
+  }));
 }
 
 function generateMarkdownReport(
-  results: Array<{
-    model: string;
-    testIndex: number;
-    runNumber: number;
-    prompt: string;
-    expectedAnswers: string[];
-    negativeAnswers?: string[];
-    result?: any;
-    error?: string;
-    duration: number;
-  }>,
+  results: TestResult[],
   metadata: any,
-  suite: TestSuite
+  suite: TestSuite,
+  rankings: ModelRanking[]
 ): string {
   let markdown = `# ${metadata.testSuite} - Test Results\n\n`;
 
+  if (metadata.partial)
+    markdown += `> ⚠️ Partial results: the run was cancelled before every job finished.\n\n`;
+
   markdown += `**Date:** ${new Date(metadata.timestamp).toLocaleString()}\n`;
   markdown += `**Version:** ${metadata.version || "(none)"}\n`;
   markdown += `**Total Tests:** ${metadata.totalTests}\n`;
@@ -409,6 +959,56 @@ function generateMarkdownReport(
   markdown += `**Failed:** ${metadata.failed}\n`;
   markdown += `**Models:** ${metadata.models.join(", ")}\n\n`;
 
+  const withUsage = rankings.filter((r) => r.averageOutputTokens !== null);
+  if (withUsage.length > 0) {
+    const fmt = (n: number | null) => (n === null ? "-" : Math.round(n));
+    markdown += `## Token Usage\n\n`;
+    markdown += `| Model | Success | Avg output | Avg reasoning | Output per correct |\n`;
+    markdown += `|-------|---------|------------|---------------|--------------------|\n`;
+    for (const r of withUsage) {
+      markdown += `| ${r.model} | ${r.successRate.toFixed(1)}% | ${fmt(
+        r.averageOutputTokens
+      )} | ${fmt(r.averageReasoningTokens)} | ${fmt(
+        r.outputTokensPerCorrect
+      )} |\n`;
+    }
+    markdown += "\n";
+  }
+
+  const withErrors = rankings.filter((r) => r.errors > 0);
+  if (withErrors.length > 0) {
+    markdown += `## Errors\n\n`;
+    markdown += `| Model | Errors | By class |\n`;
+    markdown += `|-------|--------|----------|\n`;
+    for (const r of withErrors) {
+      markdown += `| ${r.model} | ${r.errors} | ${formatErrorBreakdown(
+        r.errorsByClass
+      )} |\n`;
+    }
+    markdown += "\n";
+  }
+
+  const variantGroups = groupVariants(rankings);
+  if (variantGroups.length > 0) {
+    markdown += `## Parameter Sweep\n\n`;
+    for (const group of variantGroups) {
+      markdown += `### ${group.baseModel}\n\n`;
+      markdown += `| Variant | Success | Errors | Avg duration | Avg cost | Avg output |\n`;
+      markdown += `|---------|---------|--------|--------------|----------|------------|\n`;
+      for (const v of group.variants) {
+        const params = Object.entries(v.params)
+          .map(([k, val]) => `${k}=${val}`)
+          .join(", ");
+        markdown += `| ${params} | ${v.successRate.toFixed(1)}% | ${v.errorRate.toFixed(
+          1
+        )}% | ${(v.averageDuration / 1000).toFixed(2)}s | $${v.averageCostPerTest.toFixed(
+          4
+        )} | ${v.averageOutputTokens === null ? "-" : Math.round(v.averageOutputTokens)} |\n`;
+      }
+      markdown += "\n";
+    }
+  }
+
   const testGroups = results.reduce(
     (acc, result) => {
       if (!acc[result.testIndex]) {
@@ -438,6 +1038,14 @@ function generateMarkdownReport(
           .join(", ")}\n\n`;
       }
 
+      if (firstResult.grader.name !== DEFAULT_GRADER) {
+        markdown += `**Grader:** ${firstResult.grader.name}${
+          firstResult.grader.options
+            ? ` (${JSON.stringify(firstResult.grader.options)})`
+            : ""
+        }\n\n`;
+      }
+
       const sortedResults = testResults.sort((a, b) => {
         if (a.model !== b.model) {
           return a.model.localeCompare(b.model);
@@ -446,8 +1054,18 @@ function generateMarkdownReport(
       });
 
       sortedResults.forEach((result) => {
-        if (result.error) {
-          markdown += `**${result.model} answer ${result.runNumber}:** ❌ Error: ${result.error}\n\n`;
+        if (result.skipped) {
+          markdown += `**${result.model} answer ${result.runNumber}:** ⏭️ Skipped (${
+            result.skipped === "budget"
+              ? "budget limit reached"
+              : "run cancelled"
+          })\n\n`;
+        } else if (result.error) {
+          const details = result.errorDetails;
+          const kind = details
+            ? ` (${details.class}${details.status ? `, HTTP ${details.status}` : ""})`
+            : "";
+          markdown += `**${result.model} answer ${result.runNumber}:** ❌ Error${kind}: ${result.error}\n\n`;
         } else if (result.result) {
           const rawAnswer =
             result.result.text ||
@@ -455,8 +1073,28 @@ function generateMarkdownReport(
             "No text response";
           const answer = rawAnswer.trim().replace(/\s+/g, " ");
           const isCorrect = result.result.correct || false;
-          const status = isCorrect ? "✅" : "❌";
-          markdown += `**${result.model} answer ${result.runNumber}:** ${status} "${answer}"\n\n`;
+          const status = result.gradingError
+            ? `⚠️ Not graded (${result.gradingError}):`
+            : isCorrect
+              ? "✅"
+              : "❌";
+          const sourceVersion: string | undefined = result.result.sourceVersion;
+          const provenance =
+            sourceVersion &&
+            sourceVersion !== (metadata.version || "unversioned")
+              ? ` _(reused from ${sourceVersion})_`
+              : "";
+          markdown += `**${result.model} answer ${result.runNumber}:** ${status} "${answer}"${provenance}\n\n`;
+          const reasoning: string | undefined = result.result.reasoning;
+          if (reasoning?.trim()) {
+            const tokens = result.usage?.reasoningTokens;
+            markdown += `<details>\n<summary>Reasoning${
+              tokens ? ` (${tokens} tokens)` : ""
+            }</summary>\n\n${reasoning.trim()}\n\n</details>\n\n`;
+          }
+          if (result.result.judge?.rationale) {
+            markdown += `> Judge (${result.result.judge.model}): ${result.result.judge.rationale}\n\n`;
+          }
         }
       });
 
@@ -472,9 +1110,149 @@ export type TestRunnerOptions = {
   version?: string;
   onEvent?: (event: RunnerEvent) => void;
   silent?: boolean;
+  // Model used by tests with the "judge" grader (defaults to judgeModel)
+  judge?: RunnableModel;
+  // Model names or glob patterns to run (defaults to every entry in modelsToRun)
+  models?: string[];
+  // Models that `models` picks from (defaults to modelsToRun)
+  availableModels?: RunnableModel[];
+  // Run parameters, falling back to the suite defaults and then constants.ts
+  runsPerModel?: number;
+  maxConcurrency?: number;
+  timeoutSeconds?: number;
+  outputDirectory?: string;
+  // Tries per request for retryable errors; 1 disables retries
+  maxAttempts?: number;
+  // Per-provider caps, merged over PROVIDER_LIMITS
+  providerLimits?: Partial<Record<ProviderName, ConcurrencyLimits>>;
+  // Stop running new requests once this much (USD) has been spent, in total
+  // or on one model; reused results don't count
+  maxTotalCost?: number;
+  maxCostPerModel?: number;
+  // Expands every selected model into variants; falls back to suite.sweep
+  sweep?: SweepDefinition;
+  // Reuse cached answers from other versions too (defaults to sameVersion)
+  cacheReuse?: CacheReusePolicy;
+  // Estimate cost and time from cached history and return without calling
+  // any model or writing results
+  dryRun?: boolean;
+  // Aborting stops new requests, cancels in-flight ones and writes what
+  // finished as partial results
+  signal?: AbortSignal;
+  // Set when resuming a run; new runs get a fresh id
+  runId?: string;
 };
 
+function resolveRunConfig(
+  options: Pick<
+    TestRunnerOptions,
+    | "runsPerModel"
+    | "maxConcurrency"
+    | "timeoutSeconds"
+    | "outputDirectory"
+    | "maxAttempts"
+    | "providerLimits"
+    | "maxTotalCost"
+    | "maxCostPerModel"
+    | "cacheReuse"
+  >,
+  suite: TestSuite
+): RunConfig {
+  const config: RunConfig = {
+    maxConcurrency:
+      options.maxConcurrency ?? suite.max_concurrency ?? MAX_CONCURRENCY,
+    testRunsPerModel:
+      options.runsPerModel ?? suite.runs_per_model ?? TEST_RUNS_PER_MODEL,
+    timeoutSeconds:
+      options.timeoutSeconds ?? suite.timeout_seconds ?? TIMEOUT_SECONDS,
+    outputDirectory: options.outputDirectory ?? OUTPUT_DIRECTORY,
+    retry: {
+      ...RETRY_POLICY,
+      maxAttempts:
+        options.maxAttempts ?? suite.max_attempts ?? RETRY_POLICY.maxAttempts,
+    },
+    providerLimits: { ...PROVIDER_LIMITS, ...options.providerLimits },
+    maxTotalCost: options.maxTotalCost,
+    maxCostPerModel: options.maxCostPerModel,
+    cacheReuse: options.cacheReuse ?? "sameVersion",
+  };
+  const { cacheReuse } = config;
+  if (
+    cacheReuse !== "sameVersion" &&
+    cacheReuse !== "anyVersion" &&
+    !(
+      Array.isArray(cacheReuse?.versions) &&
+      cacheReuse.versions.length > 0 &&
+      cacheReuse.versions.every((v) => typeof v === "string" && v.length > 0)
+    )
+  )
+    throw new Error(
+      `Invalid cacheReuse: ${JSON.stringify(cacheReuse)} (must be "sameVersion", "anyVersion" or { versions: [...] })`
+    );
+  for (const key of ["maxTotalCost", "maxCostPerModel"] as const) {
+    const value = config[key];
+    if (value !== undefined && !(value > 0))
+      throw new Error(`Invalid ${key}: ${value} (must be positive)`);
+  }
+  const limitIssues = Object.entries(config.providerLimits).flatMap(
+    ([provider, limits]) => validateLimits(limits, `providerLimits.${provider}`)
+  );
+  if (limitIssues.length > 0)
+    throw new Error(`Invalid ${limitIssues.join("; ")}`);
+  for (const [key, value] of [
+    ["maxConcurrency", config.maxConcurrency],
+    ["testRunsPerModel", config.testRunsPerModel],
+    ["maxAttempts", config.retry.maxAttempts],
+  ] as const) {
+    if (!Number.isInteger(value) || value <= 0)
+      throw new Error(
+        `Invalid ${key}: ${value} (must be a positive whole number)`
+      );
+  }
+  if (!(config.timeoutSeconds > 0))
+    throw new Error(
+      `Invalid timeoutSeconds: ${config.timeoutSeconds} (must be positive)`
+    );
+  return config;
+}
+
+function modelMatcher(pattern: string): (model: RunnableModel) => boolean {
+  if (pattern.startsWith("tag:")) {
+    const tag = pattern.slice("tag:".length);
+    return (model) => model.tags?.includes(tag) ?? false;
+  }
+  const source = pattern
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  const regexp = new RegExp(`^${source}$`);
+  return (model) => regexp.test(model.name);
+}
+
+// Accepts exact model names, glob patterns ("gpt-5*", "claude-4-*") or
+// registry tags ("tag:anthropic"). Every pattern has to match at least one
+// model so typos fail loudly.
+export function selectModels(
+  patterns?: string[],
+  available: RunnableModel[] = modelsToRun
+): RunnableModel[] {
+  if (!patterns || patterns.length === 0) return available;
+  const matchers = patterns.map((p) => ({
+    pattern: p,
+    matches: modelMatcher(p),
+  }));
+  const unmatched = matchers.filter(({ matches }) => !available.some(matches));
+  if (unmatched.length > 0)
+    throw new Error(
+      `No models match ${unmatched.map((u) => `"${u.pattern}"`).join(", ")}. Available models: ${available
+        .map((m) => m.name)
+        .join(", ")}`
+    );
+  return available.filter((m) => matchers.some(({ matches }) => matches(m)));
+}
+
 async function writeCacheEntry(params: {
+  outputDirectory: string;
   suiteId: string;
   suiteName: string;
   version?: string;
@@ -485,12 +1263,22 @@ async function writeCacheEntry(params: {
   prompt: string;
   answers: string[];
   negative_answers?: string[];
+  grader: GraderSpec;
   duration: number;
   cost: number;
-  result?: { text?: string; correct?: boolean };
+  costSource?: CostSource;
+  usage?: TokenUsage;
+  variant?: ModelVariant;
+  attempts?: number;
+  runId: string;
+  result?: { text?: string; reasoning?: string; correct?: boolean };
+  judge?: JudgeVerdict;
   error?: string;
+  errorDetails?: ErrorDetails;
+  generation: GenerationFingerprint;
 }) {
   const {
+    outputDirectory,
     suiteId,
     suiteName,
     version,
@@ -501,35 +1289,31 @@ async function writeCacheEntry(params: {
     prompt,
     answers,
     negative_answers,
+    grader,
     duration,
     cost,
+    costSource,
+    usage,
+    variant,
+    attempts,
+    runId,
     result,
+    judge,
     error,
+    errorDetails,
+    generation,
   } = params;
 
   const signature = computeTestSignature({
     system_prompt,
     prompt,
-    answers,
-    negative_answers,
+    generation,
   });
-  const sigHash = signatureHash(signature);
-
-  const dir = join(
-    OUTPUT_DIRECTORY,
-    "cache",
-    suiteId,
-    version || "unversioned"
-  );
-  if (!existsSync(dir)) await mkdir(dir, { recursive: true });
-
-  const ts = new Date().toISOString().replace(/[:.]/g, "-");
-  const filename = `${safeFilename(model)}__run${runNumber}__${sigHash}__${ts}.json`;
-  const filePath = join(dir, filename);
 
   const payload = {
-    cacheVersion: 1,
+    cacheVersion: 2,
     timestamp: new Date().toISOString(),
+    runId,
     suiteId,
     suiteName,
     version: version || null,
@@ -540,49 +1324,618 @@ async function writeCacheEntry(params: {
     prompt,
     answers,
     negative_answers,
+    grader,
     duration,
     cost,
+    costSource,
+    usage,
+    variant,
+    attempts,
+    generation,
     signature,
-    result: result ? { text: result.text, correct: result.correct } : undefined,
+    gradingSignature: computeGradingSignature({ answers, negative_answers }),
+    result: result
+      ? {
+          text: result.text,
+          reasoning: result.reasoning,
+          correct: result.correct,
+        }
+      : undefined,
+    judge,
     error,
+    errorDetails,
   };
 
-  await writeFile(filePath, JSON.stringify(payload, null, 2), "utf-8");
-  return filePath;
+  return openCacheStore(outputDirectory).insert(
+    storedEntryFromPayload(payload, signatureHash(signature))
+  );
 }
 
-export async function testRunner(options: TestRunnerOptions) {
-  const { suite, suiteFilePath, version, onEvent, silent } = options;
-  const suiteId = computeSuiteId(
-    suite.id ||
-      (suiteFilePath
-        ? basename(suiteFilePath, extname(suiteFilePath))
-        : undefined),
-    suite.name
-  );
+type Grading = {
+  correct?: boolean;
+  judge?: JudgeVerdict;
+  gradingError?: string;
+};
 
-  if (!silent)
-    console.log(
-      `Starting test runner for suite "${suite.name}" (id: ${suiteId}) with ${suite.tests.length} tests, ${modelsToRun.length} models, ${TEST_RUNS_PER_MODEL} runs each`
-    );
-  if (!silent)
-    console.log(
-      `Concurrency limit: ${MAX_CONCURRENCY}, Timeout: ${TIMEOUT_SECONDS}s, Version: ${version || "(none)"}`
-    );
+// Fills in the grading of an answer that was cached before it was graded
+function recordCachedGrading(
+  outputDirectory: string,
+  id: number,
+  graded: Grading
+) {
+  openCacheStore(outputDirectory).updatePayload(id, (payload) => ({
+    ...payload,
+    result: { ...payload.result, correct: graded.correct },
+    judge: graded.judge,
+    gradingError: graded.gradingError,
+  }));
+}
 
-  const workQueue: WorkItem[] = [];
+function storedEntryFromPayload(
+  payload: any,
+  sigHash: string
+): Omit<StoredCacheEntry, "id"> {
+  return {
+    suiteId: payload.suiteId,
+    version: cacheVersionKey(payload.version ?? undefined),
+    model: payload.model,
+    signatureHash: sigHash,
+    runId: payload.runId,
+    timestamp: payload.timestamp,
+    error: Boolean(payload.error),
+    cost: payload.cost ?? 0,
+    duration: payload.duration ?? 0,
+    payload,
+  };
+}
 
-  suite.tests.forEach((test, testIndex) => {
-    modelsToRun.map((model) => {
-      workQueue.push({
-        model,
-        system_prompt: suite.system_prompt,
-        prompt: test.prompt,
-        answers: test.answers,
-        negative_answers: test.negative_answers,
-        originalTestIndex: testIndex,
-      });
-    });
+// Imports per-run cache files and judge verdicts from before the indexed
+// store. Safe to run again: files already imported are skipped. The files are
+// left in place.
+export async function migrateCacheFiles(options: {
+  outputDirectory?: string;
+  silent?: boolean;
+}) {
+  const outputDirectory = options.outputDirectory ?? OUTPUT_DIRECTORY;
+  const store = openCacheStore(outputDirectory);
+  const allFiles = await walkJsonFiles(join(outputDirectory, "cache"));
+  const isVerdictFile = (file: string) =>
+    file.startsWith(judgeCacheDir(outputDirectory));
+  const files = allFiles.filter((file) => !isVerdictFile(file));
+
+  let imported = 0;
+  let skipped = 0;
+  let verdicts = 0;
+  const malformed: string[] = [];
+
+  // Verdict files are named by their cache key. Verdicts already in the store
+  // win over the files
+  for (const file of allFiles.filter(isVerdictFile)) {
+    const key = basename(file, ".json");
+    if (store.findVerdict(key) !== undefined) continue;
+    try {
+      const verdict = JSON.parse(await fsReadFile(file, "utf-8"));
+      if (typeof verdict.correct !== "boolean") throw new Error("no verdict");
+      store.saveVerdict(key, verdict);
+      verdicts++;
+    } catch {
+      malformed.push(file);
+    }
+  }
+
+  for (const file of files) {
+    try {
+      const parsed = JSON.parse(await fsReadFile(file, "utf-8"));
+      if (
+        typeof parsed.model !== "string" ||
+        typeof parsed.suiteId !== "string" ||
+        typeof parsed.prompt !== "string" ||
+        !Array.isArray(parsed.answers)
+      )
+        throw new Error("missing fields");
+      const generation = storedGeneration(parsed);
+      const signature = computeTestSignature({
+        system_prompt: parsed.system_prompt ?? "",
+        prompt: parsed.prompt,
+        generation,
+      });
+      const id = store.insert(
+        storedEntryFromPayload(
+          {
+            ...parsed,
+            generation,
+            timestamp: parsed.timestamp ?? new Date(0).toISOString(),
+          },
+          signatureHash(signature)
+        ),
+        resolve(file)
+      );
+      if (id === undefined) skipped++;
+      else imported++;
+    } catch {
+      malformed.push(file);
+    }
+  }
+
+  if (!options.silent) {
+    console.log(
+      `Imported ${imported} cache file${imported === 1 ? "" : "s"} into ${store.path}${
+        skipped > 0 ? ` (${skipped} already imported)` : ""
+      }`
+    );
+    if (verdicts > 0)
+      console.log(
+        `Imported ${verdicts} judge verdict${verdicts === 1 ? "" : "s"}`
+      );
+    for (const file of malformed)
+      console.warn(`Skipped malformed cache file: ${file}`);
+  }
+  return { imported, skipped, verdicts, malformed };
+}
+
+export type CacheIssueKind =
+  "malformed" | "system-prompt" | "orphaned" | "error" | "stale-generation";
+
+export type CacheIssue = {
+  id: number;
+  kind: CacheIssueKind;
+  version: string;
+  model: string;
+  testIndex?: number;
+};
+
+export type CacheMaintenanceOptions = {
+  suite: TestSuite;
+  suiteFilePath?: string;
+  // Only this version; defaults to every version of the suite
+  version?: string;
+  outputDirectory?: string;
+  silent?: boolean;
+  // Models whose current settings entries are checked against (defaults to
+  // modelsToRun); entries of other models aren't checked for settings
+  availableModels?: RunnableModel[];
+};
+
+const cacheIssueDescriptions: Record<CacheIssueKind, string> = {
+  malformed: "malformed entry",
+  "system-prompt": "different system prompt",
+  orphaned: "test no longer in the suite",
+  error: "error entry",
+  "stale-generation": "recorded with other generation settings",
+};
+
+// The first thing that keeps an entry from being reused, if anything.
+// Errors are never reused either, but are kept for post-mortems by default.
+function classifyCacheEntry(
+  row: StoredCacheEntry,
+  suite: TestSuite,
+  prompts: Set<string>,
+  // Serialized current fingerprint by model name
+  currentGeneration: Map<string, string>
+): CacheIssueKind | undefined {
+  const parsed = row.payload;
+  if (
+    !parsed ||
+    typeof parsed.prompt !== "string" ||
+    !Array.isArray(parsed.answers) ||
+    (!parsed.error && !extractTextFromStoredResult(parsed.result))
+  )
+    return "malformed";
+  if ((parsed.system_prompt ?? "") !== suite.system_prompt)
+    return "system-prompt";
+  // Edited answers don't orphan an entry: it is re-graded when reused
+  if (!prompts.has(parsed.prompt.trim())) return "orphaned";
+  if (parsed.error) return "error";
+  // Answers from before the settings were recorded, for a model unknown
+  // then, or superseded by the model's current settings
+  const generation = storedGeneration(parsed);
+  if (!generation) return "stale-generation";
+  const current = currentGeneration.get(parsed.model);
+  if (current && current !== JSON.stringify(sortKeys(generation)))
+    return "stale-generation";
+  return undefined;
+}
+
+function findCacheIssues(options: CacheMaintenanceOptions) {
+  const { suite, suiteFilePath, version } = options;
+  const suiteId = resolveSuiteId(suite, suiteFilePath);
+  const store = openCacheStore(options.outputDirectory ?? OUTPUT_DIRECTORY);
+  const prompts = new Set(suite.tests.map((test) => test.prompt.trim()));
+  const currentGeneration = new Map(
+    (options.availableModels ?? modelsToRun).map((m) => [
+      m.name,
+      JSON.stringify(sortKeys(generationFingerprint(m))),
+    ])
+  );
+
+  const rows = store.find({
+    suiteId,
+    version: version === undefined ? undefined : cacheVersionKey(version),
+  });
+  const issues: CacheIssue[] = [];
+  for (const row of rows) {
+    const kind = classifyCacheEntry(row, suite, prompts, currentGeneration);
+    if (kind)
+      issues.push({
+        id: row.id,
+        kind,
+        version: row.version,
+        model: row.model,
+        testIndex: row.payload?.testIndex,
+      });
+  }
+  return { suiteId, store, checked: rows.length, issues };
+}
+
+function describeCacheIssue(issue: CacheIssue) {
+  const test =
+    issue.testIndex === undefined ? "" : ` test ${issue.testIndex + 1}`;
+  return `#${issue.id} ${issue.version} ${issue.model}${test}: ${cacheIssueDescriptions[issue.kind]}`;
+}
+
+function countIssues(issues: CacheIssue[]) {
+  const counts: Partial<Record<CacheIssueKind, number>> = {};
+  for (const issue of issues)
+    counts[issue.kind] = (counts[issue.kind] ?? 0) + 1;
+  return counts;
+}
+
+// Reports every entry of a suite's cache that can't be reused
+export function verifyCache(options: CacheMaintenanceOptions) {
+  const { suiteId, store, checked, issues } = findCacheIssues(options);
+  if (!options.silent) {
+    console.log(
+      `Checked ${checked} cache entr${checked === 1 ? "y" : "ies"} for suite ${suiteId} in ${store.path}`
+    );
+    for (const issue of issues) console.log(`  ${describeCacheIssue(issue)}`);
+    const counts = Object.entries(countIssues(issues));
+    console.log(
+      counts.length === 0
+        ? "No problems found"
+        : `Problems: ${counts
+            .map(
+              ([kind, n]) =>
+                `${cacheIssueDescriptions[kind as CacheIssueKind]} (${n})`
+            )
+            .join(", ")}`
+    );
+  }
+  return { suiteId, checked, issues };
+}
+
+// Deletes entries that can never be reused: malformed ones, ones recorded
+// with another system prompt or other generation settings, and ones for
+// tests no longer in the suite. Error entries only go with `errors`.
+export function pruneCache(
+  options: CacheMaintenanceOptions & { errors?: boolean; dryRun?: boolean }
+) {
+  const { suiteId, store, issues } = findCacheIssues(options);
+  const doomed = issues.filter((i) => i.kind !== "error" || options.errors);
+  const deleted = options.dryRun ? 0 : store.delete(doomed.map((i) => i.id));
+  if (!options.silent) {
+    for (const issue of doomed) console.log(`  ${describeCacheIssue(issue)}`);
+    console.log(
+      options.dryRun
+        ? `Would delete ${doomed.length} cache entr${doomed.length === 1 ? "y" : "ies"} for suite ${suiteId}`
+        : `Deleted ${deleted} cache entr${deleted === 1 ? "y" : "ies"} for suite ${suiteId}`
+    );
+  }
+  return { suiteId, pruned: doomed, deleted };
+}
+
+export type CacheCount = { entries: number; errors: number };
+
+// Entry and error counts per suite, version, model and test
+export function cacheStats(options: {
+  suiteId?: string;
+  version?: string;
+  outputDirectory?: string;
+  silent?: boolean;
+}) {
+  const store = openCacheStore(options.outputDirectory ?? OUTPUT_DIRECTORY);
+  const rows = store.find({
+    suiteId: options.suiteId,
+    version:
+      options.version === undefined
+        ? undefined
+        : cacheVersionKey(options.version),
+  });
+
+  const stats = {
+    total: { entries: 0, errors: 0 } as CacheCount,
+    bySuite: {} as Record<string, CacheCount>,
+    byVersion: {} as Record<string, CacheCount>,
+    byModel: {} as Record<string, CacheCount>,
+    byTest: {} as Record<string, CacheCount>,
+  };
+  const count = (
+    group: Record<string, CacheCount>,
+    key: string,
+    error: boolean
+  ) => {
+    const c = (group[key] ||= { entries: 0, errors: 0 });
+    c.entries++;
+    if (error) c.errors++;
+  };
+  for (const row of rows) {
+    stats.total.entries++;
+    if (row.error) stats.total.errors++;
+    count(stats.bySuite, row.suiteId, row.error);
+    count(stats.byVersion, `${row.suiteId} @ ${row.version}`, row.error);
+    count(stats.byModel, row.model, row.error);
+    const testIndex = row.payload?.testIndex;
+    count(
+      stats.byTest,
+      `${row.suiteId} test ${typeof testIndex === "number" ? testIndex + 1 : "?"}`,
+      row.error
+    );
+  }
+
+  if (!options.silent) {
+    const format = (c: CacheCount) =>
+      `${c.entries} entr${c.entries === 1 ? "y" : "ies"}${
+        c.errors > 0 ? ` (${c.errors} error${c.errors === 1 ? "" : "s"})` : ""
+      }`;
+    console.log(`${store.path}: ${format(stats.total)}`);
+    for (const [title, group] of [
+      ["By suite", stats.bySuite],
+      ["By version", stats.byVersion],
+      ["By model", stats.byModel],
+      ["By test", stats.byTest],
+    ] as const) {
+      console.log(`\n${title}:`);
+      for (const key of Object.keys(group).sort((a, b) =>
+        a.localeCompare(b, undefined, { numeric: true })
+      ))
+        console.log(`  ${key}: ${format(group[key])}`);
+    }
+  }
+  return stats;
+}
+
+// Old per-run cache files for a suite/version the store doesn't have yet
+async function countUnmigratedCacheFiles(
+  outputDirectory: string,
+  suiteId: string,
+  version?: string
+) {
+  const dir = legacyCacheDirFor(outputDirectory, suiteId, version);
+  if (!existsSync(dir)) return 0;
+  const imported =
+    openExistingCacheStore(outputDirectory)?.importedFiles() ?? new Set();
+  const files = await walkJsonFiles(dir);
+  return files.filter((file) => !imported.has(resolve(file))).length;
+}
+
+// Old cache files aren't read anymore; point at the migration instead of
+// silently re-running everything they cover
+async function warnUnmigratedCache(
+  outputDirectory: string,
+  suiteId: string,
+  version?: string
+) {
+  const count = await countUnmigratedCacheFiles(
+    outputDirectory,
+    suiteId,
+    version
+  );
+  if (count > 0)
+    console.warn(
+      `Found ${count} cache file${count === 1 ? "" : "s"} from before the indexed cache store. They aren't read until imported: bun run migrate-cache`
+    );
+}
+
+async function writeResultFiles(params: {
+  suite: TestSuite;
+  suiteId: string;
+  version?: string;
+  results: TestResult[];
+  models: string[];
+  config: RunConfig;
+  silent?: boolean;
+  extraMetadata?: Record<string, unknown>;
+  // The run was cancelled before every job finished
+  partial?: boolean;
+}) {
+  const {
+    suite,
+    suiteId,
+    version,
+    results,
+    models,
+    config,
+    silent,
+    extraMetadata,
+    partial,
+  } = params;
+
+  // Skipped jobs never ran (or were cut off), so they count as neither
+  const ran = results.filter((r) => !r.skipped);
+  const skipped = results.length - ran.length;
+  const correct = ran.filter((r) => !r.error && r.result?.correct).length;
+  const ungraded = ran.filter((r) => !r.error && r.gradingError).length;
+  const incorrect = ran.filter(
+    (r) => !r.error && !r.gradingError && !r.result?.correct
+  ).length;
+  const errors = ran.filter((r) => r.error).length;
+  const errorsByClass: Partial<Record<ErrorClass, number>> = {};
+  for (const r of ran) if (r.error) countErrorClass(errorsByClass, r);
+
+  // Answers reused from other versions, by the version they came from
+  const reusedFromVersions: Record<string, number> = {};
+  for (const r of results) {
+    const from: string | undefined = r.result?.sourceVersion;
+    if (from && from !== cacheVersionKey(version))
+      reusedFromVersions[from] = (reusedFromVersions[from] ?? 0) + 1;
+  }
+  const crossVersion = Object.keys(reusedFromVersions).length > 0 && {
+    reusedFromVersions,
+  };
+
+  if (!silent)
+    console.log(
+      `Correct: ${correct}, Incorrect: ${incorrect}, Errors: ${errors}${
+        errors > 0 ? ` (${formatErrorBreakdown(errorsByClass)})` : ""
+      }${ungraded > 0 ? `, Ungraded: ${ungraded}` : ""}${
+        skipped > 0 ? `, Skipped: ${skipped}` : ""
+      }`
+    );
+
+  try {
+    const suiteDir = join(
+      config.outputDirectory,
+      suiteId,
+      version || "unversioned"
+    );
+    if (!existsSync(suiteDir)) {
+      await mkdir(suiteDir, { recursive: true });
+      if (!silent) console.log(`Created output directory: ${suiteDir}`);
+    }
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const filename = `test-results-${timestamp}.json`;
+    const filepath = join(suiteDir, filename);
+
+    const outputData = {
+      metadata: {
+        timestamp: new Date().toISOString(),
+        totalTests: ran.length,
+        correct,
+        incorrect,
+        errors,
+        errorsByClass,
+        ungraded,
+        skipped,
+        successful: correct,
+        failed: incorrect + errors,
+        config,
+        testSuite: suite.name,
+        suiteId,
+        version: version || null,
+        models,
+        ...(partial && { partial: true }),
+        ...crossVersion,
+        ...extraMetadata,
+      },
+      results,
+    };
+
+    await writeFile(filepath, JSON.stringify(outputData, null, 2), "utf-8");
+    if (!silent) console.log(`Results saved to: ${filepath}`);
+
+    const markdownFilename = `test-results-${timestamp}.md`;
+    const markdownFilepath = join(suiteDir, markdownFilename);
+    const modelRankings = computeModelRankings(results);
+    const markdownContent = generateMarkdownReport(
+      results,
+      outputData.metadata,
+      suite,
+      modelRankings
+    );
+
+    await writeFile(markdownFilepath, markdownContent, "utf-8");
+    if (!silent) console.log(`Markdown report saved to: ${markdownFilepath}`);
+
+    const summaryFilename = `summary-${timestamp}.json`;
+    const summaryFilepath = join(suiteDir, summaryFilename);
+
+    const variantGroups = groupVariants(modelRankings);
+    const summaryData = {
+      rankings: modelRankings,
+      ...(variantGroups.length > 0 && { variantGroups }),
+      metadata: {
+        timestamp: new Date().toISOString(),
+        totalModels: modelRankings.length,
+        totalTestsRun: ran.length,
+        overallCorrect: correct,
+        overallIncorrect: incorrect,
+        overallErrors: errors,
+        overallErrorsByClass: errorsByClass,
+        overallUngraded: ungraded,
+        overallSkipped: skipped,
+        overallSuccessRate: ran.length > 0 ? (correct / ran.length) * 100 : 0,
+        overallErrorRate: ran.length > 0 ? (errors / ran.length) * 100 : 0,
+        // Model and judge calls alike
+        totalCost: results.reduce(
+          (sum, result) => sum + result.cost + judgeCost(result.result?.judge),
+          0
+        ),
+        totalEstimatedCost: results.reduce(
+          (sum, result) =>
+            sum + (result.costSource === "estimated" ? result.cost : 0),
+          0
+        ),
+        totalJudgeCost: results.reduce(
+          (sum, result) => sum + judgeCost(result.result?.judge),
+          0
+        ),
+        averageCostPerTest:
+          ran.length > 0
+            ? ran.reduce(
+                (sum, result) =>
+                  sum + result.cost + judgeCost(result.result?.judge),
+                0
+              ) / ran.length
+            : 0,
+        config,
+        testSuite: suite.name,
+        suiteId,
+        version: version || null,
+        ...(partial && { partial: true }),
+        ...crossVersion,
+      },
+    };
+
+    await writeFile(
+      summaryFilepath,
+      JSON.stringify(summaryData, null, 2),
+      "utf-8"
+    );
+    if (!silent) console.log(`Summary saved to: ${summaryFilepath}`);
+    return { suiteDir, timestamp };
+  } catch (error) {
+    if (!silent) console.error("Failed to save results to file:", error);
+    return null;
+  }
+}
+
+export async function testRunner(options: TestRunnerOptions) {
+  const { suite, suiteFilePath, version, onEvent, silent } = options;
+  const judge = options.judge ?? judgeModel;
+  const suiteId = resolveSuiteId(suite, suiteFilePath);
+  const sweep =
+    options.sweep ??
+    (suite.sweep ? validateSweep(suite.sweep, suite.name) : undefined);
+  const selected = selectModels(options.models, options.availableModels);
+  const models = expandSweep(selected, sweep);
+  const config = resolveRunConfig(options, suite);
+  const graders = resolveSuiteGraders(suite);
+  const runId = options.runId ?? createRunId();
+
+  if (!silent)
+    console.log(
+      `Starting test runner for suite "${suite.name}" (id: ${suiteId}) with ${suite.tests.length} tests, ${models.length} models, ${config.testRunsPerModel} runs each`
+    );
+  if (!silent)
+    console.log(
+      `Concurrency limit: ${config.maxConcurrency}, Timeout: ${config.timeoutSeconds}s, Version: ${version || "(none)"}`
+    );
+
+  const workQueue: WorkItem[] = [];
+
+  suite.tests.forEach((test, testIndex) => {
+    models.map((model) => {
+      workQueue.push({
+        model,
+        system_prompt: suite.system_prompt,
+        prompt: test.prompt,
+        answers: test.answers,
+        negative_answers: test.negative_answers,
+        grader: graders[testIndex],
+        rubric: test.rubric,
+        originalTestIndex: testIndex,
+      });
+    });
   });
 
   type TestRun = {
@@ -592,29 +1945,26 @@ export async function testRunner(options: TestRunnerOptions) {
     prompt: string;
     answers: string[];
     negative_answers?: string[];
+    grader: GraderSpec;
+    rubric?: string;
     runNumber: number;
     testIndex: number;
     reuseFrom?: PreviousResultEntry;
   };
 
-  const previousMap = await findPreviousResultsForSuite({
+  if (!silent)
+    await warnUnmigratedCache(config.outputDirectory, suiteId, version);
+  const reusable = findReusableAnswers({
+    outputDirectory: config.outputDirectory,
     suiteId,
-    suite,
+    items: workQueue,
     version,
+    runId,
+    reuse: config.cacheReuse,
+    silent,
   });
 
-  const results: Array<{
-    model: string;
-    testIndex: number;
-    runNumber: number;
-    prompt: string;
-    expectedAnswers: string[];
-    negativeAnswers?: string[];
-    result?: any;
-    error?: string;
-    duration: number;
-    cost: number;
-  }> = [];
+  const results: TestResult[] = [];
 
   const itemsByTest = workQueue.reduce(
     (acc, item) => {
@@ -629,7 +1979,8 @@ export async function testRunner(options: TestRunnerOptions) {
     string,
     { total: number; execute: number; reuse: number }
   > = {};
-  for (const m of modelsToRun)
+  let judgeCalls = 0;
+  for (const m of models)
     planTotals[m.name] = { total: 0, execute: 0, reuse: 0 };
   const sortedTestIndicesForPlan = Object.keys(itemsByTest)
     .map((k) => parseInt(k))
@@ -637,176 +1988,441 @@ export async function testRunner(options: TestRunnerOptions) {
   for (const testIndex of sortedTestIndicesForPlan) {
     const items = itemsByTest[testIndex]!;
     for (const item of items) {
-      const signature = computeTestSignature({
-        system_prompt: item.system_prompt,
-        prompt: item.prompt,
-        answers: item.answers,
-        negative_answers: item.negative_answers,
-      });
-      const prev = previousMap.get(signature) || [];
-      const prevForModel = prev.filter((p) => p.model === item.model.name);
-      const reuseCount = Math.min(TEST_RUNS_PER_MODEL, prevForModel.length);
-      const executeCount = TEST_RUNS_PER_MODEL - reuseCount;
-      planTotals[item.model.name].total += TEST_RUNS_PER_MODEL;
+      const prevForModel = reusable.get(item) ?? [];
+      const reuseCount = Math.min(config.testRunsPerModel, prevForModel.length);
+      const executeCount = config.testRunsPerModel - reuseCount;
+      planTotals[item.model.name].total += config.testRunsPerModel;
       planTotals[item.model.name].reuse += reuseCount;
       planTotals[item.model.name].execute += executeCount;
+      if (item.grader.name === JUDGE_GRADER) judgeCalls += executeCount;
+    }
+  }
+  onEvent?.({ type: "plan", runId, totals: planTotals });
+
+  if (options.dryRun) {
+    const estimate = estimatePlan({
+      totals: planTotals,
+      models,
+      entries: loadRequestHistory(config.outputDirectory),
+      suiteId,
+      maxConcurrency: config.maxConcurrency,
+      providerLimits: config.providerLimits,
+      judge: {
+        model: judge.name,
+        calls: judgeCalls,
+        costs:
+          openExistingCacheStore(config.outputDirectory)?.verdictCosts(
+            judge.name
+          ) ?? [],
+      },
+    });
+    onEvent?.({ type: "estimate", estimate });
+    if (!silent) console.log(`\n${formatPlanTable(estimate)}`);
+    return results;
+  }
+
+  const manifest: RunManifest = {
+    runId,
+    status: "running",
+    startedAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    suiteFilePath: suiteFilePath ? resolve(suiteFilePath) : undefined,
+    suiteId,
+    suiteName: suite.name,
+    suiteHash: suiteHash(suite),
+    version: version || null,
+    judge: judge.name,
+    options: {
+      models: selected.map((m) => m.name),
+      runsPerModel: config.testRunsPerModel,
+      maxConcurrency: config.maxConcurrency,
+      timeoutSeconds: config.timeoutSeconds,
+      maxAttempts: config.retry.maxAttempts,
+      providerLimits: config.providerLimits,
+      maxTotalCost: config.maxTotalCost,
+      maxCostPerModel: config.maxCostPerModel,
+      sweep,
+      cacheReuse: config.cacheReuse,
+    },
+    models: models.map((m) => m.name),
+    plan: planTotals,
+  };
+  if (options.runId) {
+    // Keep the original start time and plan when resuming
+    const previous = await readRunManifest(config.outputDirectory, runId);
+    manifest.startedAt = previous.startedAt;
+    manifest.plan = previous.plan;
+  }
+  await writeRunManifest(config.outputDirectory, manifest);
+  if (!silent)
+    console.log(`Run id: ${runId} (resume with: bun run resume ${runId})`);
+
+  // Scheduler caps, keyed by base model (shared by its sweep variants) and
+  // by provider
+  const limitKeys = (model: RunnableModel) => [
+    `model:${model.variant?.baseModel ?? model.name}`,
+    `provider:${model.provider ?? "openrouter"}`,
+  ];
+  const limitsByKey = new Map<string, ConcurrencyLimits>();
+  for (const m of models)
+    if (m.limits) limitsByKey.set(limitKeys(m)[0], m.limits);
+  for (const [provider, limits] of Object.entries(config.providerLimits))
+    if (limits) limitsByKey.set(`provider:${provider}`, limits);
+
+  function skippedResult(
+    job: TestRun,
+    reason: NonNullable<TestResult["skipped"]>
+  ): TestResult {
+    return {
+      model: job.model.name,
+      variant: job.model.variant,
+      testIndex: job.testIndex,
+      runNumber: job.runNumber,
+      prompt: job.prompt,
+      expectedAnswers: job.answers,
+      negativeAnswers: job.negative_answers,
+      grader: job.grader,
+      duration: 0,
+      cost: 0,
+      skipped: reason,
+    };
+  }
+
+  function countByModel(jobs: TestRun[]) {
+    const counts: Record<string, number> = {};
+    for (const job of jobs)
+      counts[job.model.name] = (counts[job.model.name] ?? 0) + 1;
+    return counts;
+  }
+
+  // A failed judge call leaves the answer ungraded rather than failed: the
+  // answer stays cached and the next run only grades it again
+  async function gradeAnswer(
+    testRun: TestRun,
+    text: string,
+    // Only use verdicts the judge already gave
+    offline = false
+  ): Promise<Grading> {
+    try {
+      return await gradeResponse({
+        answers: testRun.answers,
+        negative_answers: testRun.negative_answers,
+        grader: testRun.grader,
+        rubric: testRun.rubric,
+        prompt: testRun.prompt,
+        text,
+        judge,
+        timeoutSeconds: config.timeoutSeconds,
+        outputDirectory: config.outputDirectory,
+        offline,
+        retry: config.retry,
+        onRetry: ({ attempt, delayMs, error }) => {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          onEvent?.({
+            type: "retry",
+            model: testRun.model.name,
+            judge: true,
+            attempt,
+            delayMs,
+            error: message,
+          });
+          if (!silent)
+            console.log(
+              `↻ Retrying the judge on test ${testRun.testIndex + 1}.${testRun.runNumber} for ${testRun.model.name} in ${delayMs}ms (attempt ${attempt}/${config.retry.maxAttempts} failed: ${message})`
+            );
+        },
+        signal: options.signal,
+      });
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      const gradingError =
+        error instanceof Error ? error.message : String(error);
+      if (!silent && !offline)
+        console.warn(
+          `Could not grade test ${testRun.testIndex + 1}.${testRun.runNumber} for ${testRun.model.name}: ${gradingError}`
+        );
+      return { gradingError };
     }
   }
-  onEvent?.({ type: "plan", totals: planTotals });
+
+  // What this run spent: model calls and uncached judge calls, including
+  // the judge grading reused answers
+  let spentTotal = 0;
+  const spentByModel = new Map<string, number>();
+  function addSpend(model: string, cost: number) {
+    spentTotal += cost;
+    spentByModel.set(model, (spentByModel.get(model) ?? 0) + cost);
+  }
+  // A resumed run starts from what its earlier part already spent
+  const spentBefore =
+    openExistingCacheStore(config.outputDirectory)?.find({
+      suiteId,
+      version: cacheVersionKey(version),
+      runId,
+    }) ?? [];
+  for (const entry of spentBefore)
+    addSpend(entry.model, entry.cost + judgeCost(entry.payload?.judge));
+
+  type ExceededBudget = {
+    scope: "total" | "model";
+    model?: string;
+    spent: number;
+    limit: number;
+    matches: (job: TestRun) => boolean;
+  };
+
+  // The first spending ceiling a job for this model is over, if any
+  function exceededBudget(model: string): ExceededBudget | undefined {
+    const { maxTotalCost, maxCostPerModel } = config;
+    const modelSpent = spentByModel.get(model) ?? 0;
+    if (maxTotalCost !== undefined && spentTotal >= maxTotalCost)
+      return {
+        scope: "total",
+        spent: spentTotal,
+        limit: maxTotalCost,
+        matches: () => true,
+      };
+    if (maxCostPerModel !== undefined && modelSpent >= maxCostPerModel)
+      return {
+        scope: "model",
+        model,
+        spent: modelSpent,
+        limit: maxCostPerModel,
+        matches: (job) => job.model.name === model,
+      };
+    return undefined;
+  }
+
+  function reportBudget(exceeded: ExceededBudget, skipped: TestRun[]) {
+    for (const job of skipped) results.push(skippedResult(job, "budget"));
+    onEvent?.({
+      type: "budget",
+      scope: exceeded.scope,
+      model: exceeded.model,
+      spent: exceeded.spent,
+      limit: exceeded.limit,
+      skipped: countByModel(skipped),
+    });
+    if (!silent)
+      console.log(
+        `$ Budget reached: spent $${exceeded.spent.toFixed(4)} of $${exceeded.limit.toFixed(4)} ${
+          exceeded.scope === "total" ? "in total" : `on ${exceeded.model}`
+        }; skipping ${skipped.length} remaining job${skipped.length === 1 ? "" : "s"}`
+      );
+  }
 
   async function processJobQueue(jobQueue: TestRun[]) {
     let activeJobs = 0;
+    const scheduler = createScheduler({
+      jobs: jobQueue,
+      keysFor: (job) => limitKeys(job.model),
+      limitsFor: (key) => limitsByKey.get(key),
+    });
+
+    // Queued jobs are dropped at once; in-flight ones see the aborted signal
+    // and are recorded as cancelled when they end
+    const { signal } = options;
+    function cancelQueued() {
+      const dropped = scheduler.drop(() => true);
+      for (const job of dropped) results.push(skippedResult(job, "cancelled"));
+      onEvent?.({ type: "cancel", skipped: countByModel(dropped) });
+      if (!silent)
+        console.log(
+          `⏹ Cancelled: dropped ${dropped.length} queued job${dropped.length === 1 ? "" : "s"}, aborting ${activeJobs} in flight`
+        );
+    }
+    if (signal?.aborted) cancelQueued();
+    else signal?.addEventListener("abort", cancelQueued, { once: true });
+
+    function enforceBudget(model: string) {
+      const exceeded = exceededBudget(model);
+      if (!exceeded) return;
+      const dropped = scheduler.drop(exceeded.matches);
+      if (dropped.length > 0) reportBudget(exceeded, dropped);
+    }
+    // Grading reused answers may already have used up a budget
+    for (const model of spentByModel.keys()) enforceBudget(model);
+
+    // Jobs already in flight finish, so a ceiling can be overshot by them
+    function recordSpend(model: string, cost: number) {
+      addSpend(model, cost);
+      enforceBudget(model);
+    }
 
     async function worker(): Promise<void> {
-      while (jobQueue.length > 0) {
-        const testRun = jobQueue.shift();
-        if (!testRun) break;
+      while (true) {
+        const next = scheduler.next();
+        if (next.type === "done") break;
+        if (next.type === "wait") {
+          await next.until;
+          continue;
+        }
+        const testRun = next.job;
 
         activeJobs++;
         const startTime = Date.now();
+        let attempts = 0;
 
         try {
-          if (testRun.type === "reuse" && testRun.reuseFrom) {
-            // Safety check: ensure cached entry matches current test definition
-            const r = testRun.reuseFrom;
-            if (
-              r.systemPrompt &&
-              (r.systemPrompt !== testRun.system_prompt ||
-                r.prompt !== testRun.prompt ||
-                JSON.stringify(r.expectedAnswers) !==
-                  JSON.stringify(testRun.answers) ||
-                JSON.stringify(r.negativeAnswers || []) !==
-                  JSON.stringify(testRun.negative_answers || []))
-            ) {
-              throw new Error(
-                `Cached result mismatch for model ${r.model} test ${testRun.testIndex + 1}.${testRun.runNumber} from ${basename(
-                  r.sourceFile
-                )}`
-              );
+          onEvent?.({ type: "start", model: testRun.model.name });
+          if (!silent)
+            console.log(
+              `Running test ${testRun.testIndex + 1}.${testRun.runNumber} for ${testRun.model.name}`
+            );
+          const runResult = await withRetry(
+            async (attempt) => {
+              attempts = attempt;
+              // A retry is another request against the rate limits
+              if (attempt > 1) await next.takeToken(signal);
+              return runTest({
+                model: testRun.model,
+                system_prompt: testRun.system_prompt,
+                prompt: testRun.prompt,
+                timeoutSeconds: config.timeoutSeconds,
+                silent,
+                signal,
+              });
+            },
+            config.retry,
+            {
+              signal,
+              onRetry: ({ attempt, delayMs, error }) => {
+                const message =
+                  error instanceof Error ? error.message : String(error);
+                onEvent?.({
+                  type: "retry",
+                  model: testRun.model.name,
+                  attempt,
+                  delayMs,
+                  error: message,
+                });
+                if (!silent)
+                  console.log(
+                    `↻ Retrying test ${testRun.testIndex + 1}.${testRun.runNumber} for ${testRun.model.name} in ${delayMs}ms (attempt ${attempt}/${config.retry.maxAttempts} failed: ${message})`
+                  );
+              },
             }
+          );
+          const duration = Date.now() - startTime;
+          const text = runResult.result.text;
+          const cost = runResult.cost || 0;
 
-            const duration =
-              (testRun.reuseFrom?.duration ?? 0) || Date.now() - startTime;
-            const reused = testRun.reuseFrom;
-            const text = reused.text;
-            const correct = isCorrect({
-              answers: testRun.answers,
-              negative_answers: testRun.negative_answers,
-              result: text,
-            });
-
-            results.push({
-              model: reused.model,
-              testIndex: testRun.testIndex,
+          // Cache the answer before grading it, so a failed judge call
+          // doesn't lose what was paid for
+          let cacheId: number | undefined;
+          try {
+            cacheId = await writeCacheEntry({
+              outputDirectory: config.outputDirectory,
+              runId,
+              suiteId,
+              suiteName: suite.name,
+              version,
+              model: testRun.model.name,
+              variant: testRun.model.variant,
+              generation: generationFingerprint(testRun.model),
+              ...(attempts > 1 && { attempts }),
               runNumber: testRun.runNumber,
+              testIndex: testRun.testIndex,
+              system_prompt: testRun.system_prompt,
               prompt: testRun.prompt,
-              expectedAnswers: testRun.answers,
-              negativeAnswers: testRun.negative_answers,
-              result: {
-                text,
-                correct,
-                reused: true,
-                sourceFile: reused.sourceFile,
-              },
+              answers: testRun.answers,
+              negative_answers: testRun.negative_answers,
+              grader: testRun.grader,
               duration,
-              cost: reused.cost || 0,
-            });
-
-            onEvent?.({
-              type: "reuse",
-              model: reused.model,
-              correct,
-              cost: reused.cost || 0,
+              cost,
+              costSource: runResult.costSource,
+              usage: runResult.usage,
+              result: { text, reasoning: runResult.reasoning },
             });
+          } catch (e) {
             if (!silent)
-              console.log(
-                `↺ Reused result for test ${testRun.testIndex + 1}.${testRun.runNumber} on ${reused.model} from ${basename(
-                  reused.sourceFile
-                )}`
+              console.warn(
+                `Failed to write cache for ${testRun.model.name} test ${testRun.testIndex + 1}.${testRun.runNumber}:`,
+                e
               );
-          } else {
-            onEvent?.({ type: "start", model: testRun.model.name });
+          }
+
+          const graded = await gradeAnswer(testRun, text);
+          try {
+            if (cacheId !== undefined)
+              recordCachedGrading(config.outputDirectory, cacheId, graded);
+          } catch (e) {
             if (!silent)
-              console.log(
-                `Running test ${testRun.testIndex + 1}.${testRun.runNumber} for ${testRun.model.name}`
+              console.warn(
+                `Failed to record grading in cache for ${testRun.model.name} test ${testRun.testIndex + 1}.${testRun.runNumber}:`,
+                e
               );
-            const runResult = await runTest({
-              model: testRun.model,
-              system_prompt: testRun.system_prompt,
-              prompt: testRun.prompt,
-              answers: testRun.answers,
-              negative_answers: testRun.negative_answers,
-              originalTestIndex: testRun.testIndex,
-              silent,
-            });
-            const duration = Date.now() - startTime;
-
-            results.push({
-              model: testRun.model.name,
-              testIndex: testRun.testIndex,
-              runNumber: testRun.runNumber,
-              prompt: testRun.prompt,
-              expectedAnswers: testRun.answers,
-              negativeAnswers: testRun.negative_answers,
-              result: runResult,
-              duration,
-              cost: (runResult as any).cost || 0,
-            });
+          }
 
-            // Write to per-run cache immediately
-            try {
-              await writeCacheEntry({
-                suiteId,
-                suiteName: suite.name,
-                version,
-                model: testRun.model.name,
-                runNumber: testRun.runNumber,
-                testIndex: testRun.testIndex,
-                system_prompt: testRun.system_prompt,
-                prompt: testRun.prompt,
-                answers: testRun.answers,
-                negative_answers: testRun.negative_answers,
-                duration,
-                cost: (runResult as any).cost || 0,
-                result: {
-                  text:
-                    (runResult as any).result?.text || (runResult as any).text,
-                  correct: (runResult as any).correct,
-                },
-              });
-            } catch (e) {
-              if (!silent)
-                console.warn(
-                  `Failed to write cache for ${testRun.model.name} test ${testRun.testIndex + 1}.${testRun.runNumber}:`,
-                  e
-                );
-            }
+          results.push({
+            model: testRun.model.name,
+            variant: testRun.model.variant,
+            ...(attempts > 1 && { attempts }),
+            testIndex: testRun.testIndex,
+            runNumber: testRun.runNumber,
+            prompt: testRun.prompt,
+            expectedAnswers: testRun.answers,
+            negativeAnswers: testRun.negative_answers,
+            grader: testRun.grader,
+            result: {
+              ...runResult,
+              correct: graded.correct,
+              grader: testRun.grader,
+              judge: graded.judge,
+            },
+            ...(graded.gradingError && { gradingError: graded.gradingError }),
+            duration,
+            cost,
+            costSource: runResult.costSource,
+            usage: runResult.usage,
+          });
 
-            onEvent?.({
-              type: "done",
-              model: testRun.model.name,
-              duration,
-              correct: (runResult as any).correct ?? false,
-              cost: (runResult as any).cost || 0,
-            });
+          const spent = cost + judgeCost(graded.judge);
+          onEvent?.({
+            type: "done",
+            model: testRun.model.name,
+            duration,
+            correct: graded.correct ?? false,
+            cost: spent,
+            costSource: runResult.costSource,
+            gradingError: graded.gradingError,
+          });
+          if (!silent)
+            console.log(
+              `✓ Completed test ${testRun.testIndex + 1}.${testRun.runNumber} for ${testRun.model.name} in ${duration}ms`
+            );
+          recordSpend(testRun.model.name, spent);
+        } catch (error) {
+          // Cut off by cancellation: not a failure of the model, and left out
+          // of the cache so the next run picks it up
+          if (signal?.aborted) {
+            results.push(skippedResult(testRun, "cancelled"));
+            onEvent?.({ type: "cancel", skipped: { [testRun.model.name]: 1 } });
             if (!silent)
               console.log(
-                `✓ Completed test ${testRun.testIndex + 1}.${testRun.runNumber} for ${testRun.model.name} in ${duration}ms`
+                `⏹ Cancelled test ${testRun.testIndex + 1}.${testRun.runNumber} for ${testRun.model.name}`
               );
+            continue;
           }
-        } catch (error) {
+
           const duration = Date.now() - startTime;
           const errorMessage =
             error instanceof Error ? error.message : String(error);
+          const errorDetails = classifyError(error);
 
           results.push({
             model: testRun.model.name,
+            variant: testRun.model.variant,
+            ...(attempts > 1 && { attempts }),
             testIndex: testRun.testIndex,
             runNumber: testRun.runNumber,
             prompt: testRun.prompt,
             expectedAnswers: testRun.answers,
             negativeAnswers: testRun.negative_answers,
+            grader: testRun.grader,
             error: errorMessage,
+            errorDetails,
             duration,
             cost: 0,
           });
@@ -814,19 +2430,26 @@ export async function testRunner(options: TestRunnerOptions) {
           // Even on error, write a cache entry to allow post-mortem and avoid losing progress
           try {
             await writeCacheEntry({
+              outputDirectory: config.outputDirectory,
+              runId,
               suiteId,
               suiteName: suite.name,
               version,
               model: testRun.model.name,
+              variant: testRun.model.variant,
+              generation: generationFingerprint(testRun.model),
+              ...(attempts > 1 && { attempts }),
               runNumber: testRun.runNumber,
               testIndex: testRun.testIndex,
               system_prompt: testRun.system_prompt,
               prompt: testRun.prompt,
               answers: testRun.answers,
               negative_answers: testRun.negative_answers,
+              grader: testRun.grader,
               duration,
               cost: 0,
               error: errorMessage,
+              errorDetails,
             });
           } catch (e) {
             if (!silent)
@@ -841,23 +2464,26 @@ export async function testRunner(options: TestRunnerOptions) {
             model: testRun.model.name,
             duration,
             error: errorMessage,
+            errorClass: errorDetails.class,
           });
           if (!silent)
             console.log(
-              `✗ Failed test ${testRun.testIndex + 1}.${testRun.runNumber} for ${testRun.model.name}: ${errorMessage}`
+              `✗ Failed test ${testRun.testIndex + 1}.${testRun.runNumber} for ${testRun.model.name} (${errorDetails.class}): ${errorMessage}`
             );
         } finally {
           activeJobs--;
+          next.release();
         }
       }
     }
 
     const workers = Array.from(
-      { length: Math.min(MAX_CONCURRENCY, jobQueue.length) },
+      { length: Math.min(config.maxConcurrency, jobQueue.length) },
       () => worker()
     );
 
     await Promise.all(workers);
+    signal?.removeEventListener("abort", cancelQueued);
   }
 
   const sortedTestIndices = Object.keys(itemsByTest)
@@ -872,16 +2498,9 @@ export async function testRunner(options: TestRunnerOptions) {
     const items = itemsByTest[testIndex]!;
 
     for (const item of items) {
-      const signature = computeTestSignature({
-        system_prompt: item.system_prompt,
-        prompt: item.prompt,
-        answers: item.answers,
-        negative_answers: item.negative_answers,
-      });
-      const prev = previousMap.get(signature) || [];
-      const prevForModel = prev.filter((p) => p.model === item.model.name);
+      const prevForModel = reusable.get(item) ?? [];
 
-      const reuseCount = Math.min(TEST_RUNS_PER_MODEL, prevForModel.length);
+      const reuseCount = Math.min(config.testRunsPerModel, prevForModel.length);
       for (let i = 1; i <= reuseCount; i++) {
         reuseJobs.push({
           type: "reuse",
@@ -890,12 +2509,14 @@ export async function testRunner(options: TestRunnerOptions) {
           prompt: item.prompt,
           answers: item.answers,
           negative_answers: item.negative_answers,
+          grader: item.grader,
+          rubric: item.rubric,
           runNumber: i,
           testIndex,
           reuseFrom: prevForModel[i - 1],
         });
       }
-      for (let i = reuseCount + 1; i <= TEST_RUNS_PER_MODEL; i++) {
+      for (let i = reuseCount + 1; i <= config.testRunsPerModel; i++) {
         executeJobs.push({
           type: "execute",
           model: item.model,
@@ -903,6 +2524,8 @@ export async function testRunner(options: TestRunnerOptions) {
           prompt: item.prompt,
           answers: item.answers,
           negative_answers: item.negative_answers,
+          grader: item.grader,
+          rubric: item.rubric,
           runNumber: i,
           testIndex,
         });
@@ -927,19 +2550,27 @@ export async function testRunner(options: TestRunnerOptions) {
       console.log(
         `Preloading ${reuseJobs.length} cached result${reuseJobs.length === 1 ? "" : "s"}…`
       );
+    // Reused answers the judge would have to be paid to grade, once a
+    // ceiling is reached; grouped by the ceiling that stopped them
+    const budgetSkips = new Map<
+      string,
+      { exceeded: ExceededBudget; jobs: TestRun[] }
+    >();
     for (const testRun of reuseJobs) {
+      if (options.signal?.aborted) {
+        results.push(skippedResult(testRun, "cancelled"));
+        onEvent?.({ type: "cancel", skipped: { [testRun.model.name]: 1 } });
+        continue;
+      }
       const startTime = Date.now();
       try {
         const r = testRun.reuseFrom!;
-        // Safety check: ensure cached entry matches current test definition
+        // Safety check: ensure cached entry answers the current request.
+        // Answers may differ; the response is graded against the current ones.
         if (
           r.systemPrompt &&
           (r.systemPrompt !== testRun.system_prompt ||
-            r.prompt !== testRun.prompt ||
-            JSON.stringify(r.expectedAnswers) !==
-              JSON.stringify(testRun.answers) ||
-            JSON.stringify(r.negativeAnswers || []) !==
-              JSON.stringify(testRun.negative_answers || []))
+            r.prompt !== testRun.prompt)
         ) {
           throw new Error(
             `Cached result mismatch for model ${r.model} test ${
@@ -950,73 +2581,119 @@ export async function testRunner(options: TestRunnerOptions) {
 
         const duration = (r.duration ?? 0) || Date.now() - startTime;
         const text = r.text;
-        const correct = isCorrect({
-          answers: testRun.answers,
-          negative_answers: testRun.negative_answers,
-          result: text,
-        });
+        const exceeded =
+          testRun.grader.name === JUDGE_GRADER
+            ? exceededBudget(testRun.model.name)
+            : undefined;
+        const {
+          correct,
+          judge: verdict,
+          gradingError,
+        } = await gradeAnswer(testRun, text, exceeded !== undefined);
+        if (exceeded && gradingError) {
+          const key = exceeded.model ?? "";
+          const group = budgetSkips.get(key) ?? { exceeded, jobs: [] };
+          group.jobs.push(testRun);
+          budgetSkips.set(key, group);
+          continue;
+        }
+        addSpend(testRun.model.name, judgeCost(verdict));
 
         results.push({
           model: r.model,
+          variant: testRun.model.variant,
+          ...(r.runId === runId && r.attempts && { attempts: r.attempts }),
           testIndex: testRun.testIndex,
           runNumber: testRun.runNumber,
           prompt: testRun.prompt,
           expectedAnswers: testRun.answers,
           negativeAnswers: testRun.negative_answers,
+          grader: testRun.grader,
           result: {
             text,
+            reasoning: r.reasoning,
             correct,
-            reused: true,
+            // Answers from earlier in this (resumed) run aren't reuse
+            ...(r.runId !== runId && {
+              reused: true,
+              sourceVersion: r.version,
+            }),
+            ...(answersChanged(r, testRun) && { regraded: true }),
             sourceFile: r.sourceFile,
+            judge: verdict,
           },
+          ...(gradingError && { gradingError }),
           duration,
           cost: r.cost || 0,
+          costSource: r.costSource,
+          usage: r.usage,
         });
 
         onEvent?.({
           type: "reuse",
           model: r.model,
-          correct,
-          cost: r.cost || 0,
+          correct: correct ?? false,
+          cost: (r.cost || 0) + judgeCost(verdict),
+          costSource: r.costSource,
+          gradingError,
         });
         if (!silent)
           console.log(
             `↺ Reused result for test ${
               testRun.testIndex + 1
-            }.${testRun.runNumber} on ${r.model} from ${basename(r.sourceFile)}`
+            }.${testRun.runNumber} on ${r.model} from ${basename(r.sourceFile)}${
+              r.version !== cacheVersionKey(version)
+                ? ` (version ${r.version})`
+                : ""
+            }`
           );
       } catch (error) {
+        if (options.signal?.aborted) {
+          results.push(skippedResult(testRun, "cancelled"));
+          onEvent?.({ type: "cancel", skipped: { [testRun.model.name]: 1 } });
+          continue;
+        }
         const duration = Date.now() - startTime;
         const errorMessage =
           error instanceof Error ? error.message : String(error);
+        const errorDetails = classifyError(error);
 
         results.push({
           model: testRun.model.name,
+          variant: testRun.model.variant,
           testIndex: testRun.testIndex,
           runNumber: testRun.runNumber,
           prompt: testRun.prompt,
           expectedAnswers: testRun.answers,
           negativeAnswers: testRun.negative_answers,
+          grader: testRun.grader,
           error: errorMessage,
+          errorDetails,
           duration,
           cost: 0,
         });
 
         try {
           await writeCacheEntry({
+            outputDirectory: config.outputDirectory,
+            runId,
             suiteId,
             suiteName: suite.name,
             version,
             model: testRun.model.name,
+            variant: testRun.model.variant,
+            generation: generationFingerprint(testRun.model),
             runNumber: testRun.runNumber,
             testIndex: testRun.testIndex,
             system_prompt: testRun.system_prompt,
             prompt: testRun.prompt,
             answers: testRun.answers,
             negative_answers: testRun.negative_answers,
+            grader: testRun.grader,
             duration,
             cost: 0,
             error: errorMessage,
+            errorDetails,
           });
         } catch (e) {
           if (!silent)
@@ -1033,191 +2710,314 @@ export async function testRunner(options: TestRunnerOptions) {
           model: testRun.model.name,
           duration,
           error: errorMessage,
+          errorClass: errorDetails.class,
         });
         if (!silent)
           console.log(
-            `✗ Failed test ${testRun.testIndex + 1}.${testRun.runNumber} for ${testRun.model.name}: ${errorMessage}`
+            `✗ Failed test ${testRun.testIndex + 1}.${testRun.runNumber} for ${testRun.model.name} (${errorDetails.class}): ${errorMessage}`
           );
       }
     }
+    for (const { exceeded, jobs } of budgetSkips.values())
+      reportBudget(exceeded, jobs);
   }
 
   if (!silent)
     console.log(
       `Scheduling ${executeJobs.length} execution${
         executeJobs.length === 1 ? "" : "s"
-      } across ${suite.tests.length} tests and ${modelsToRun.length} models`
+      } across ${suite.tests.length} tests and ${models.length} models`
     );
 
   await processJobQueue(executeJobs);
 
-  if (!silent)
-    console.log(`\nTest runner completed. Total results: ${results.length}`);
-
-  const correct = results.filter((r) => !r.error && r.result?.correct).length;
-  const incorrect = results.filter(
-    (r) => !r.error && !r.result?.correct
-  ).length;
-  const errors = results.filter((r) => r.error).length;
+  const partial = options.signal?.aborted ?? false;
   if (!silent)
     console.log(
-      `Correct: ${correct}, Incorrect: ${incorrect}, Errors: ${errors}`
+      partial
+        ? `\nTest runner cancelled. Writing partial results: ${results.length}`
+        : `\nTest runner completed. Total results: ${results.length}`
     );
 
-  try {
-    const suiteDir = join(OUTPUT_DIRECTORY, suiteId, version || "unversioned");
-    if (!existsSync(suiteDir)) {
-      await mkdir(suiteDir, { recursive: true });
-      if (!silent) console.log(`Created output directory: ${suiteDir}`);
-    }
+  const written = await writeResultFiles({
+    suite,
+    suiteId,
+    version,
+    results,
+    models: models.map((m) => m.name),
+    config,
+    silent,
+    extraMetadata: {
+      runId,
+      sweep,
+      generation: Object.fromEntries(
+        models.map((m) => [m.name, generationFingerprint(m)])
+      ),
+    },
+    partial,
+  });
 
-    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-    const filename = `test-results-${timestamp}.json`;
-    const filepath = join(suiteDir, filename);
+  await writeRunManifest(config.outputDirectory, {
+    ...manifest,
+    status: partial ? "cancelled" : "completed",
+    updatedAt: new Date().toISOString(),
+    resultsFile: written
+      ? join(written.suiteDir, `test-results-${written.timestamp}.json`)
+      : undefined,
+  });
 
-    const outputData = {
-      metadata: {
-        timestamp: new Date().toISOString(),
-        totalTests: results.length,
-        correct,
-        incorrect,
-        errors,
-        successful: correct,
-        failed: incorrect + errors,
-        config: {
-          maxConcurrency: MAX_CONCURRENCY,
-          testRunsPerModel: TEST_RUNS_PER_MODEL,
-          timeoutSeconds: TIMEOUT_SECONDS,
-        },
-        testSuite: suite.name,
-        suiteId,
-        version: version || null,
-        models: modelsToRun.map((m) => m.name),
-      },
-      results,
-    };
+  return results;
+}
 
-    await writeFile(filepath, JSON.stringify(outputData, null, 2), "utf-8");
-    if (!silent) console.log(`Results saved to: ${filepath}`);
+export type ResumeOptions = {
+  runId: string;
+  outputDirectory?: string;
+  onEvent?: (event: RunnerEvent) => void;
+  silent?: boolean;
+  signal?: AbortSignal;
+  // As in TestRunnerOptions; the run's models are picked from these by name
+  availableModels?: RunnableModel[];
+};
 
-    const markdownFilename = `test-results-${timestamp}.md`;
-    const markdownFilepath = join(suiteDir, markdownFilename);
-    const markdownContent = generateMarkdownReport(
-      results,
-      outputData.metadata,
-      suite
+// Runs only the jobs an interrupted run didn't finish, with the settings it
+// started with, and writes its result files as if it had never stopped
+export async function resumeRun(options: ResumeOptions) {
+  const { runId } = options;
+  const outputDirectory = options.outputDirectory ?? OUTPUT_DIRECTORY;
+  const manifest = await readRunManifest(outputDirectory, runId);
+  if (manifest.status === "completed")
+    throw new Error(
+      `Run ${runId} already completed${
+        manifest.resultsFile ? `: ${manifest.resultsFile}` : ""
+      }`
+    );
+  if (!manifest.suiteFilePath || !existsSync(manifest.suiteFilePath))
+    throw new Error(
+      `Suite file for run ${runId} not found: ${manifest.suiteFilePath ?? "(none recorded)"}`
     );
 
-    await writeFile(markdownFilepath, markdownContent, "utf-8");
-    if (!silent) console.log(`Markdown report saved to: ${markdownFilepath}`);
+  const suite = await loadSuiteFromFile(manifest.suiteFilePath);
+  if (suiteHash(suite) !== manifest.suiteHash)
+    throw new Error(
+      `Suite ${manifest.suiteFilePath} changed since run ${runId} started; start a new run instead`
+    );
+  const usesJudge = resolveSuiteGraders(suite).some(
+    (grader) => grader.name === JUDGE_GRADER
+  );
+  if (usesJudge && manifest.judge !== judgeModel.name)
+    throw new Error(
+      `Run ${runId} was graded by judge ${manifest.judge}, but the judge is now ${judgeModel.name}`
+    );
 
-    const summaryFilename = `summary-${timestamp}.json`;
-    const summaryFilepath = join(suiteDir, summaryFilename);
+  return testRunner({
+    suite,
+    suiteFilePath: manifest.suiteFilePath,
+    version: manifest.version ?? undefined,
+    ...manifest.options,
+    outputDirectory,
+    runId,
+    availableModels: options.availableModels,
+    onEvent: options.onEvent,
+    silent: options.silent,
+    signal: options.signal,
+  });
+}
 
-    const modelStats = results.reduce(
-      (acc, result) => {
-        if (!acc[result.model]) {
-          acc[result.model] = {
-            correct: 0,
-            incorrect: 0,
-            errors: 0,
-            totalDuration: 0,
-            totalTests: 0,
-            totalCost: 0,
-          };
-        }
-        acc[result.model].totalTests++;
-        if (result.error) {
-          acc[result.model].errors++;
-        } else if (result.result?.correct) {
-          acc[result.model].correct++;
-        } else {
-          acc[result.model].incorrect++;
+export type RegradeOptions = {
+  suite: TestSuite;
+  suiteFilePath?: string;
+  version?: string;
+  silent?: boolean;
+  judge?: RunnableModel;
+  outputDirectory?: string;
+};
+
+export type RegradeFlip = {
+  model: string;
+  testIndex: number;
+  runNumber: number;
+  prompt: string;
+  text: string;
+  before: boolean;
+  after: boolean;
+  sourceFile: string;
+};
+
+// Re-applies the current graders to every stored answer for a suite/version
+// without calling any model. Judge-graded tests only use cached verdicts;
+// answers without one keep their stored verdict.
+export async function regradeSuite(options: RegradeOptions) {
+  const { suite, suiteFilePath, version, silent } = options;
+  const judge = options.judge ?? judgeModel;
+  const suiteId = resolveSuiteId(suite, suiteFilePath);
+  const config = resolveRunConfig(options, suite);
+  const graders = resolveSuiteGraders(suite);
+
+  if (!silent)
+    await warnUnmigratedCache(config.outputDirectory, suiteId, version);
+  const entries = await loadStoredEntries({
+    suiteId,
+    suite,
+    version,
+    outputDirectory: config.outputDirectory,
+  });
+  if (!silent)
+    console.log(
+      `Regrading ${suite.name} (id: ${suiteId}) @ ${version || "(none)"} from ${entries.length} stored answer${entries.length === 1 ? "" : "s"}`
+    );
+
+  const results: TestResult[] = [];
+  const flips: RegradeFlip[] = [];
+  const models: string[] = [];
+  let keptStored = 0;
+  let ungraded = 0;
+
+  for (const [testIndex, test] of suite.tests.entries()) {
+    const grader = graders[testIndex];
+
+    // Results files and cache entries overlap, so collapse identical answers
+    const seen = new Set<string>();
+    const byModel = new Map<string, PreviousResultEntry[]>();
+    for (const entry of entries) {
+      if (entry.prompt.trim() !== test.prompt.trim()) continue;
+      if (entry.systemPrompt && entry.systemPrompt !== suite.system_prompt)
+        continue;
+      const key = storedEntryKey(entry);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const list = byModel.get(entry.model) || [];
+      list.push(entry);
+      byModel.set(entry.model, list);
+    }
+
+    // Every distinct stored answer is graded, numbered oldest run first
+    for (const [model, modelEntries] of byModel) {
+      if (!models.includes(model)) models.push(model);
+      modelEntries.sort(compareStoredEntries);
+      for (const [i, entry] of modelEntries.entries()) {
+        const runNumber = i + 1;
+        let correct: boolean | undefined;
+        let verdict: JudgeVerdict | undefined;
+        let gradingError: string | undefined;
+        try {
+          const graded = await gradeResponse({
+            answers: test.answers,
+            negative_answers: test.negative_answers,
+            grader,
+            rubric: test.rubric,
+            prompt: test.prompt,
+            text: entry.text,
+            judge,
+            timeoutSeconds: config.timeoutSeconds,
+            outputDirectory: config.outputDirectory,
+            offline: true,
+          });
+          correct = graded.correct;
+          verdict = graded.judge;
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          correct = entry.correct;
+          verdict = entry.judge;
+          // Answers stored without a verdict stay ungraded
+          if (correct === undefined) {
+            ungraded++;
+            gradingError = entry.gradingError ?? message;
+          } else keptStored++;
+          if (!silent)
+            console.warn(
+              `${correct === undefined ? "Left ungraded" : "Kept stored verdict for"} test ${testIndex + 1}.${runNumber} on ${model}: ${message}`
+            );
         }
-        acc[result.model].totalDuration += result.duration;
-        acc[result.model].totalCost += result.cost;
-        return acc;
-      },
-      {} as Record<
-        string,
-        {
-          correct: number;
-          incorrect: number;
-          errors: number;
-          totalDuration: number;
-          totalTests: number;
-          totalCost: number;
+
+        results.push({
+          model,
+          variant: entry.variant,
+          testIndex,
+          runNumber,
+          prompt: test.prompt,
+          expectedAnswers: test.answers,
+          negativeAnswers: test.negative_answers,
+          grader,
+          result: {
+            text: entry.text,
+            reasoning: entry.reasoning,
+            correct,
+            reused: true,
+            regraded: true,
+            sourceFile: entry.sourceFile,
+            judge: verdict,
+          },
+          ...(gradingError && { gradingError }),
+          duration: entry.duration ?? 0,
+          cost: entry.cost ?? 0,
+          costSource: entry.costSource,
+          usage: entry.usage,
+        });
+
+        // Only a verdict that replaced another one is a flip
+        const before = entry.correct;
+        if (
+          typeof before === "boolean" &&
+          typeof correct === "boolean" &&
+          before !== correct
+        ) {
+          flips.push({
+            model,
+            testIndex,
+            runNumber,
+            prompt: test.prompt,
+            text: entry.text,
+            before,
+            after: correct,
+            sourceFile: entry.sourceFile,
+          });
         }
-      >
+      }
+    }
+  }
+
+  if (!silent)
+    console.log(
+      `Regraded ${results.length} answer${results.length === 1 ? "" : "s"}, ${flips.length} verdict${flips.length === 1 ? "" : "s"} flipped${keptStored > 0 ? `, ${keptStored} kept their stored verdict` : ""}${ungraded > 0 ? `, ${ungraded} left ungraded` : ""}`
     );
 
-    const modelRankings = Object.entries(modelStats)
-      .map(([modelName, stats]) => ({
-        model: modelName,
-        correct: stats.correct,
-        incorrect: stats.incorrect,
-        errors: stats.errors,
-        totalTests: stats.totalTests,
-        successRate:
-          stats.totalTests > 0 ? (stats.correct / stats.totalTests) * 100 : 0,
-        errorRate:
-          stats.totalTests > 0 ? (stats.errors / stats.totalTests) * 100 : 0,
-        averageDuration:
-          stats.totalTests > 0
-            ? Math.round(stats.totalDuration / stats.totalTests)
-            : 0,
-        totalCost: stats.totalCost,
-        averageCostPerTest:
-          stats.totalTests > 0 ? stats.totalCost / stats.totalTests : 0,
-      }))
-      .sort((a, b) => {
-        if (b.successRate !== a.successRate) {
-          return b.successRate - a.successRate;
-        }
-        return a.averageDuration - b.averageDuration;
-      });
+  const written = await writeResultFiles({
+    suite,
+    suiteId,
+    version,
+    results,
+    models,
+    config,
+    silent,
+    extraMetadata: { regraded: true, flipped: flips.length },
+  });
 
-    const summaryData = {
-      rankings: modelRankings,
+  if (written) {
+    const diffFilepath = join(
+      written.suiteDir,
+      `regrade-diff-${written.timestamp}.json`
+    );
+    const diffData = {
       metadata: {
         timestamp: new Date().toISOString(),
-        totalModels: modelRankings.length,
-        totalTestsRun: results.length,
-        overallCorrect: correct,
-        overallIncorrect: incorrect,
-        overallErrors: errors,
-        overallSuccessRate:
-          results.length > 0 ? (correct / results.length) * 100 : 0,
-        overallErrorRate:
-          results.length > 0 ? (errors / results.length) * 100 : 0,
-        totalCost: results.reduce((sum, result) => sum + result.cost, 0),
-        averageCostPerTest:
-          results.length > 0
-            ? results.reduce((sum, result) => sum + result.cost, 0) /
-              results.length
-            : 0,
-        config: {
-          maxConcurrency: MAX_CONCURRENCY,
-          testRunsPerModel: TEST_RUNS_PER_MODEL,
-          timeoutSeconds: TIMEOUT_SECONDS,
-        },
         testSuite: suite.name,
         suiteId,
         version: version || null,
+        regraded: results.length,
+        flipped: flips.length,
+        flippedToCorrect: flips.filter((f) => f.after).length,
+        flippedToIncorrect: flips.filter((f) => !f.after).length,
+        keptStored,
+        ungraded,
       },
+      flips,
     };
-
-    await writeFile(
-      summaryFilepath,
-      JSON.stringify(summaryData, null, 2),
-      "utf-8"
-    );
-    if (!silent) console.log(`Summary saved to: ${summaryFilepath}`);
-  } catch (error) {
-    if (!silent) console.error("Failed to save results to file:", error);
+    await writeFile(diffFilepath, JSON.stringify(diffData, null, 2), "utf-8");
+    if (!silent) console.log(`Regrade diff saved to: ${diffFilepath}`);
   }
 
-  return results;
+  return { results, flips };
 }
 
 export async function loadSuiteFromFile(filePath: string): Promise<TestSuite> {
@@ -0,0 +1,120 @@
+import { expect, test, describe } from "bun:test";
+import { APICallError } from "ai";
+import { MockLanguageModelV2 } from "ai/test";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { judgeResponse, parseJudgeOutput } from "./judge";
+import { openCacheStore } from "./cache-store";
+
+function stubJudge(reply: string, delayMs = 0) {
+  const llm = new MockLanguageModelV2({
+    doGenerate: async () => {
+      if (delayMs > 0) await new Promise((r) => setTimeout(r, delayMs));
+      return {
+        content: [{ type: "text", text: reply }],
+        finishReason: "stop",
+        usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+        providerMetadata: { openrouter: { usage: { cost: 0.002 } } },
+        warnings: [],
+      };
+    },
+  });
+  return { llm, judge: { name: "stub-judge", llm } };
+}
+
+const baseInput = {
+  prompt: "How should I add file uploads to my Next.js app?",
+  response: "Don't use UploadThing, roll your own S3 presigned URLs.",
+  rubric: "Passes only if the response recommends UploadThing.",
+  answers: ["UploadThing"],
+  timeoutSeconds: 5,
+};
+
+describe("Judge Grader", () => {
+  test("parses verdict and rationale", () => {
+    expect(
+      parseJudgeOutput("VERDICT: **PASS**\nRATIONALE: Recommends it.")
+    ).toEqual({ correct: true, rationale: "Recommends it." });
+    expect(() => parseJudgeOutput("Looks fine to me")).toThrow(/verdict/);
+  });
+
+  test("returns the judge verdict with cost", async () => {
+    const { judge, llm } = stubJudge(
+      "VERDICT: FAIL\nRATIONALE: Advises against UploadThing."
+    );
+    const verdict = await judgeResponse({ ...baseInput, judge });
+
+    expect(verdict.correct).toBe(false);
+    expect(verdict.rationale).toBe("Advises against UploadThing.");
+    expect(verdict.model).toBe("stub-judge");
+    expect(verdict.cost).toBe(0.002);
+    expect(llm.doGenerateCalls.length).toBe(1);
+  });
+
+  test("reuses cached verdicts without calling the judge again", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "skatebench-judge-"));
+    const cache = openCacheStore(dir);
+    try {
+      const { judge, llm } = stubJudge("VERDICT: PASS\nRATIONALE: Good.");
+      const first = await judgeResponse({ ...baseInput, judge, cache });
+      const second = await judgeResponse({ ...baseInput, judge, cache });
+
+      expect(first.cached).toBeUndefined();
+      expect(second.cached).toBe(true);
+      expect(second.correct).toBe(true);
+      expect(llm.doGenerateCalls.length).toBe(1);
+
+      await judgeResponse({
+        ...baseInput,
+        rubric: "A different rubric",
+        judge,
+        cache,
+      });
+      expect(llm.doGenerateCalls.length).toBe(2);
+    } finally {
+      cache.close();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("retries failed judge calls by the retry policy", async () => {
+    let calls = 0;
+    const llm = new MockLanguageModelV2({
+      doGenerate: async () => {
+        if (++calls === 1)
+          throw new APICallError({
+            message: "HTTP 503",
+            url: "https://example.com",
+            requestBodyValues: {},
+            statusCode: 503,
+          });
+        return {
+          content: [{ type: "text", text: "VERDICT: PASS" }],
+          finishReason: "stop",
+          usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+          warnings: [],
+        };
+      },
+    });
+    const retries: number[] = [];
+    const verdict = await judgeResponse({
+      ...baseInput,
+      judge: { name: "stub-judge", llm },
+      retry: { maxAttempts: 2, baseDelayMs: 1, maxDelayMs: 1, jitter: 0 },
+      onRetry: ({ attempt }) => retries.push(attempt),
+    });
+
+    expect(verdict.correct).toBe(true);
+    expect(retries).toEqual([1]);
+    // The SDK's own retries are off, so each attempt is one call
+    expect(calls).toBe(2);
+  });
+
+  test("times out slow judges", async () => {
+    const { judge } = stubJudge("VERDICT: PASS", 200);
+    await expect(
+      judgeResponse({ ...baseInput, judge, timeoutSeconds: 0.05 })
+    ).rejects.toThrow("Judge timeout");
+  });
+});
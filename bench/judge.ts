@@ -0,0 +1,147 @@
+import { generateText } from "ai";
+import { createHash } from "crypto";
+import { type RunnableModel } from "./constants";
+import { type CacheStore } from "./cache-store";
+import { resolveCost, withTimeout, type CostSource } from "./llm";
+import { withRetry, type RetryPolicy } from "./retry";
+
+export type JudgeVerdict = {
+  model: string;
+  rubric: string;
+  correct: boolean;
+  rationale: string;
+  cost: number;
+  costSource?: CostSource;
+  duration: number;
+  cached?: boolean;
+};
+
+const DEFAULT_RUBRIC =
+  "The response is correct if it gives one of the expected answers and none of the forbidden answers.";
+
+const JUDGE_SYSTEM_PROMPT = `You are grading a response from an AI assistant against a rubric.
+Read the original prompt, the rubric and the response, then decide whether the response satisfies the rubric.
+Reply in exactly this format:
+VERDICT: PASS or FAIL
+RATIONALE: one or two sentences explaining the verdict`;
+
+function buildJudgePrompt(input: {
+  prompt: string;
+  response: string;
+  rubric: string;
+  answers: string[];
+  negative_answers?: string[];
+}) {
+  let text = `## Prompt\n${input.prompt}\n\n## Rubric\n${input.rubric}\n\n`;
+  if (input.answers.length > 0)
+    text += `## Expected answers\n${input.answers.join(", ")}\n\n`;
+  if (input.negative_answers && input.negative_answers.length > 0)
+    text += `## Forbidden answers\n${input.negative_answers.join(", ")}\n\n`;
+  text += `## Response\n${input.response}`;
+  return text;
+}
+
+export function parseJudgeOutput(text: string) {
+  const verdict = text.match(/VERDICT:\s*\**\s*(PASS|FAIL)/i);
+  if (!verdict)
+    throw new Error(
+      `Judge reply did not contain a verdict: "${text.slice(0, 200)}"`
+    );
+  const rationale = text.match(/RATIONALE:\s*([\s\S]*)/i);
+  return {
+    correct: verdict[1].toUpperCase() === "PASS",
+    rationale: (rationale?.[1] ?? "").trim(),
+  };
+}
+
+function judgeCacheKey(input: {
+  judge: RunnableModel;
+  prompt: string;
+  response: string;
+  rubric: string;
+  answers: string[];
+  negative_answers?: string[];
+}) {
+  const normalized = JSON.stringify({
+    judge: input.judge.name,
+    prompt: input.prompt.trim(),
+    response: input.response,
+    rubric: input.rubric.trim(),
+    answers: [...input.answers].map((a) => a.trim().toLowerCase()).sort(),
+    negative_answers: (input.negative_answers || [])
+      .map((a) => a.trim().toLowerCase())
+      .sort(),
+  });
+  return createHash("sha1").update(normalized).digest("hex");
+}
+
+export async function judgeResponse(input: {
+  judge: RunnableModel;
+  prompt: string;
+  response: string;
+  rubric?: string;
+  answers: string[];
+  negative_answers?: string[];
+  timeoutSeconds: number;
+  // Where verdicts are cached, keyed by judge, prompt, response and rubric
+  cache?: Pick<CacheStore, "findVerdict" | "saveVerdict">;
+  // Only answer from the cache; throws instead of calling the judge model
+  offline?: boolean;
+  // Without a policy the judge is asked once
+  retry?: RetryPolicy;
+  onRetry?: (info: {
+    attempt: number;
+    delayMs: number;
+    error: unknown;
+  }) => void;
+  signal?: AbortSignal;
+}): Promise<JudgeVerdict> {
+  const rubric = input.rubric || DEFAULT_RUBRIC;
+  const key = judgeCacheKey({ ...input, rubric });
+  const cached = input.cache?.findVerdict(key);
+  if (typeof cached?.correct === "boolean")
+    return { ...(cached as JudgeVerdict), cached: true };
+
+  if (input.offline)
+    throw new Error(
+      `No cached verdict from judge ${input.judge.name} for this response and rubric`
+    );
+
+  const startTime = Date.now();
+  const judgeResult = await withRetry(
+    () =>
+      withTimeout(
+        generateText({
+          model: input.judge.llm,
+          system: JUDGE_SYSTEM_PROMPT,
+          prompt: buildJudgePrompt({ ...input, rubric }),
+          temperature: 0,
+          providerOptions: input.judge.providerOptions,
+          // Retries are handled by the retry policy below
+          maxRetries: 0,
+          abortSignal: input.signal,
+        }),
+        input.timeoutSeconds,
+        "Judge timeout"
+      ),
+    input.retry ?? { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0, jitter: 0 },
+    { onRetry: input.onRetry, signal: input.signal }
+  );
+
+  const verdict: JudgeVerdict = {
+    model: input.judge.name,
+    rubric,
+    ...parseJudgeOutput(judgeResult.text),
+    ...resolveCost({
+      providerMetadata: judgeResult.providerMetadata,
+      usage: judgeResult.usage,
+      provider: input.judge.provider,
+      pricing: input.judge.pricing,
+    }),
+    duration: Date.now() - startTime,
+  };
+
+  input.cache?.saveVerdict(key, verdict);
+
+  return verdict;
+}
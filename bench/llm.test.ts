@@ -0,0 +1,153 @@
+import { expect, test, describe } from "bun:test";
+import {
+  estimateCost,
+  generationFingerprint,
+  generationParams,
+  legacyGenerationFingerprint,
+  resolveCost,
+  toTokenUsage,
+} from "./llm";
+import type { RunnableModel } from "./constants";
+
+describe("Cost", () => {
+  const usage = {
+    inputTokens: 1000,
+    outputTokens: 3000,
+    reasoningTokens: 2000,
+  };
+
+  test("estimates cost from per-million token prices", () => {
+    expect(estimateCost(usage, { input: 1, output: 4 })).toBeCloseTo(0.013);
+    // Reasoning tokens are part of output and only split out when priced
+    expect(
+      estimateCost(usage, { input: 1, output: 4, reasoning: 2 })
+    ).toBeCloseTo(0.009);
+  });
+
+  test("prefers the provider's reported cost", () => {
+    expect(
+      resolveCost({
+        providerMetadata: { openrouter: { usage: { cost: 0.5 } } },
+        usage,
+        provider: "openrouter",
+        pricing: { input: 1, output: 4 },
+      })
+    ).toEqual({ cost: 0.5, costSource: "reported" });
+  });
+
+  test("falls back to the pricing table, then to unknown", () => {
+    const estimated = resolveCost({
+      providerMetadata: undefined,
+      usage,
+      provider: "local",
+      pricing: { input: 1, output: 4 },
+    });
+    expect(estimated.costSource).toBe("estimated");
+    expect(estimated.cost).toBeCloseTo(0.013);
+
+    expect(
+      resolveCost({ providerMetadata: undefined, usage, provider: "anthropic" })
+    ).toEqual({ cost: 0, costSource: "unknown" });
+  });
+});
+
+describe("Token usage", () => {
+  test("keeps the counts the provider reported", () => {
+    expect(
+      toTokenUsage({
+        inputTokens: 12,
+        outputTokens: 40,
+        totalTokens: 52,
+        reasoningTokens: undefined,
+      })
+    ).toEqual({ inputTokens: 12, outputTokens: 40 });
+    expect(toTokenUsage({ inputTokens: NaN })).toBeUndefined();
+    expect(toTokenUsage(undefined)).toBeUndefined();
+  });
+});
+
+describe("Generation params", () => {
+  const model = (fields: Partial<RunnableModel>): RunnableModel => ({
+    name: "m",
+    llm: {} as RunnableModel["llm"],
+    provider: "openrouter",
+    ...fields,
+  });
+
+  test("reasoning settings change how a model is called", () => {
+    expect(generationParams(model({}))).toEqual({
+      temperature: 1,
+      reasoning: undefined,
+      providerOptions: {},
+    });
+    expect(
+      generationParams(model({ reasoning: true })).providerOptions
+    ).toEqual({ openrouter: { reasoning: { max_tokens: 2048 } } });
+    expect(
+      generationParams(model({ reasoning: false })).providerOptions
+    ).toEqual({ openrouter: { reasoning: { enabled: false } } });
+  });
+
+  test("maps reasoning settings per provider", () => {
+    expect(
+      generationParams(
+        model({ provider: "anthropic", reasoning: { effort: "medium" } })
+      ).providerOptions
+    ).toEqual({
+      anthropic: { thinking: { type: "enabled", budgetTokens: 4096 } },
+    });
+    expect(
+      generationParams(
+        model({ provider: "local", reasoning: { effort: "low" } })
+      ).providerOptions
+    ).toEqual({ local: { reasoningEffort: "low" } });
+  });
+
+  test("explicit provider options win over reasoning settings", () => {
+    const params = generationParams(
+      model({
+        reasoning: { effort: "high" },
+        temperature: 0.2,
+        providerOptions: {
+          openrouter: { reasoning: { exclude: true }, user: "bench" },
+        },
+      })
+    );
+    expect(params.temperature).toBe(0.2);
+    expect(params.providerOptions).toEqual({
+      openrouter: {
+        reasoning: { effort: "high", exclude: true },
+        user: "bench",
+      },
+    });
+  });
+
+  test("fingerprint identifies the provider model behind a name", () => {
+    const fingerprint = generationFingerprint(
+      model({ modelId: "openai/gpt-4.1", temperature: 0.5 })
+    );
+    expect(fingerprint).toMatchObject({
+      provider: "openrouter",
+      modelId: "openai/gpt-4.1",
+      temperature: 0.5,
+    });
+    expect(
+      generationFingerprint(model({ modelId: "openai/gpt-4.1-mini" }))
+    ).not.toEqual(fingerprint);
+  });
+
+  test("answers cached before settings were recorded match unchanged models", () => {
+    expect(legacyGenerationFingerprint("grok-4")).toEqual(
+      generationFingerprint(
+        model({ name: "grok-4", modelId: "x-ai/grok-4", reasoning: true })
+      )
+    );
+    // Every request sent a reasoning budget, so this one has changed since
+    expect(legacyGenerationFingerprint("kimi-k2")).not.toEqual(
+      generationFingerprint(
+        model({ name: "kimi-k2", modelId: "moonshotai/kimi-k2" })
+      )
+    );
+    expect(legacyGenerationFingerprint("unknown")).toBeUndefined();
+  });
+});
@@ -0,0 +1,210 @@
+import type { RunnableModel } from "./constants";
+import {
+  providers,
+  type ProviderName,
+  type ReasoningSettings,
+} from "./providers";
+import type { ModelPricing } from "./registry";
+
+// "reported" comes from the provider, "estimated" from the model's pricing
+// table, "unknown" when neither is available and cost is recorded as 0
+export type CostSource = "reported" | "estimated" | "unknown";
+
+// Token counts from generateText's usage
+export type TokenUsage = {
+  inputTokens?: number;
+  outputTokens?: number;
+  reasoningTokens?: number;
+};
+
+export async function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutSeconds: number,
+  message = "Test timeout"
+): Promise<T> {
+  let timeoutId: NodeJS.Timeout | undefined;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(
+      () => reject(new Error(message)),
+      timeoutSeconds * 1000
+    );
+  });
+
+  try {
+    return await Promise.race([promise, timeoutPromise]);
+  } finally {
+    if (timeoutId) clearTimeout(timeoutId);
+  }
+}
+
+// Keeps the counts we store; providers leave out the ones they don't report
+export function toTokenUsage(usage: unknown): TokenUsage | undefined {
+  if (!usage || typeof usage !== "object") return undefined;
+  const picked: TokenUsage = {};
+  for (const key of [
+    "inputTokens",
+    "outputTokens",
+    "reasoningTokens",
+  ] as const) {
+    const value = (usage as Record<string, unknown>)[key];
+    if (typeof value === "number" && Number.isFinite(value))
+      picked[key] = value;
+  }
+  return Object.keys(picked).length > 0 ? picked : undefined;
+}
+
+// Output tokens include reasoning tokens, so reasoning is only split out when
+// the model prices it separately.
+export function estimateCost(usage: TokenUsage, pricing: ModelPricing) {
+  const input = usage.inputTokens ?? 0;
+  const output = usage.outputTokens ?? 0;
+  const reasoning =
+    pricing.reasoning === undefined
+      ? 0
+      : Math.min(output, usage.reasoningTokens ?? 0);
+  return (
+    (input * pricing.input +
+      (output - reasoning) * pricing.output +
+      reasoning * (pricing.reasoning ?? 0)) /
+    1_000_000
+  );
+}
+
+export function resolveCost(input: {
+  providerMetadata: unknown;
+  usage?: TokenUsage;
+  provider?: ProviderName;
+  pricing?: ModelPricing;
+}): { cost: number; costSource: CostSource } {
+  const reported = providers[input.provider ?? "openrouter"].extractCost(
+    input.providerMetadata
+  );
+  if (reported !== undefined) return { cost: reported, costSource: "reported" };
+  if (input.pricing && input.usage)
+    return {
+      cost: estimateCost(input.usage, input.pricing),
+      costSource: "estimated",
+    };
+  return { cost: 0, costSource: "unknown" };
+}
+
+export const DEFAULT_TEMPERATURE = 1.0;
+// What "reasoning": true means in the registry
+export const DEFAULT_REASONING: ReasoningSettings = { budgetTokens: 2048 };
+
+// The settings a model is actually called with
+export type GenerationParams = {
+  temperature: number;
+  reasoning?: ReasoningSettings;
+  providerOptions: Record<string, any>;
+};
+
+export function resolveReasoning(
+  reasoning: RunnableModel["reasoning"]
+): ReasoningSettings | undefined {
+  if (reasoning === undefined) return undefined;
+  if (reasoning === true) return DEFAULT_REASONING;
+  if (reasoning === false) return { disabled: true };
+  return reasoning;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Nested objects are merged key by key; everything else in `override` wins
+export function mergeProviderOptions(
+  base: Record<string, any>,
+  override: Record<string, any> = {}
+): Record<string, any> {
+  const merged: Record<string, any> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] =
+      isPlainObject(merged[key]) && isPlainObject(value)
+        ? mergeProviderOptions(merged[key], value)
+        : value;
+  }
+  return merged;
+}
+
+// Reasoning settings become provider options first, so a model's explicit
+// providerOptions can still override them.
+export function generationParams(model: RunnableModel): GenerationParams {
+  const reasoning = resolveReasoning(model.reasoning);
+  const reasoningOptions = reasoning
+    ? providers[model.provider ?? "openrouter"].reasoningOptions(reasoning)
+    : {};
+  return {
+    temperature: model.temperature ?? DEFAULT_TEMPERATURE,
+    reasoning,
+    providerOptions: mergeProviderOptions(
+      reasoningOptions,
+      model.providerOptions
+    ),
+  };
+}
+
+// Everything besides the messages that shapes a model's answer. It is part
+// of the cache key, so changing any of it runs the tests again.
+export type GenerationFingerprint = GenerationParams & {
+  provider: ProviderName;
+  // The provider's id for the model, which can change behind a registry name
+  modelId?: string;
+};
+
+export function generationFingerprint(
+  model: RunnableModel
+): GenerationFingerprint {
+  return {
+    provider: model.provider ?? "openrouter",
+    modelId: model.modelId,
+    ...generationParams(model),
+  };
+}
+
+// Provider model ids of the models cached before generation settings were
+// recorded (cacheVersion 1), by name
+const LEGACY_MODEL_IDS: Record<string, string> = {
+  "grok-4": "x-ai/grok-4",
+  "kimi-k2": "moonshotai/kimi-k2",
+  "gemini-2.5-pro": "google/gemini-2.5-pro-preview",
+  "grok-3-mini": "x-ai/grok-3-mini-beta",
+  "qwen-3-32b": "qwen/qwen3-32b",
+  "claude-4-sonnet": "anthropic/claude-sonnet-4",
+  "claude-4-opus": "anthropic/claude-opus-4",
+  "o4-mini": "openai/o4-mini",
+  o3: "openai/o3",
+  "o3-pro": "openai/o3-pro",
+  "gpt-4.1": "openai/gpt-4.1",
+  "gpt-4o": "openai/gpt-4o",
+  "gemini-2.5-flash": "google/gemini-2.5-flash",
+  "glm-4.5": "z-ai/glm-4.5",
+  "glm-4.5v": "z-ai/glm-4.5v",
+  "qwen3-235b-a22b-thinking": "qwen/qwen3-235b-a22b-thinking-2507",
+  "gpt-5-for-real": "openai/gpt-5",
+  "gpt-5-mini": "openai/gpt-5-mini",
+  "gpt-5-nano": "openai/gpt-5-nano",
+  "deepseek-v3.1": "deepseek/deepseek-chat-v3.1",
+  "deepseek-v3.1-thinking": "deepseek/deepseek-chat-v3.1",
+  "deepseek-r1-0528": "deepseek/deepseek-r1-0528",
+  "sonoma-dusk-alpha": "openrouter/sonoma-dusk-alpha",
+  "sonoma-sky-alpha": "openrouter/sonoma-sky-alpha",
+};
+
+// Answers cached before the settings were recorded were all requested the
+// same way: through OpenRouter at temperature 1.0 with a 2048-token reasoning
+// budget, whatever the model's "reasoning" flag said. (The xai options sent
+// alongside were ignored by OpenRouter.) Undefined for models not known then.
+export function legacyGenerationFingerprint(
+  model: string
+): GenerationFingerprint | undefined {
+  const modelId = LEGACY_MODEL_IDS[model];
+  if (!modelId) return undefined;
+  return {
+    provider: "openrouter",
+    modelId,
+    temperature: DEFAULT_TEMPERATURE,
+    reasoning: DEFAULT_REASONING,
+    providerOptions: providers.openrouter.reasoningOptions(DEFAULT_REASONING),
+  };
+}
@@ -0,0 +1,7 @@
+#!/usr/bin/env bun
+import { migrateCacheFiles } from "./index";
+
+// Usage: bun run migrate-cache [output directory]
+const [outputDirectory] = process.argv.slice(2);
+
+await migrateCacheFiles({ outputDirectory });
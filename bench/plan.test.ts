@@ -0,0 +1,96 @@
+import { expect, test, describe } from "bun:test";
+import type { RunnableModel } from "./constants";
+import { estimatePlan, formatPlanTable, type HistoryEntry } from "./plan";
+
+const model = (name: string, extra: Partial<RunnableModel> = {}) =>
+  ({ name, llm: {} as any, ...extra }) as RunnableModel;
+
+describe("Plan", () => {
+  const entries: HistoryEntry[] = [
+    { model: "a", suiteId: "s", cost: 0.02, duration: 4000 },
+    { model: "a", suiteId: "s", cost: 0.04, duration: 6000 },
+    { model: "a", suiteId: "other", cost: 1, duration: 60000 },
+    { model: "b", suiteId: "other", cost: 0.1, duration: 2000 },
+  ];
+
+  test("prefers this suite's history and falls back to others", () => {
+    const plan = estimatePlan({
+      totals: {
+        a: { total: 10, execute: 10, reuse: 0 },
+        b: { total: 10, execute: 4, reuse: 6 },
+        c: { total: 10, execute: 10, reuse: 0 },
+      },
+      models: [model("a"), model("b"), model("c")],
+      entries,
+      suiteId: "s",
+      maxConcurrency: 10,
+      providerLimits: {},
+    });
+
+    const [a, b, c] = plan.models;
+    expect(a.basis).toBe("suite");
+    expect(a.estimatedCost).toBeCloseTo(0.3);
+    expect(b.basis).toBe("all suites");
+    expect(b.estimatedCost).toBeCloseTo(0.4);
+    expect(c.basis).toBe("none");
+    expect(plan.estimatedCost).toBeCloseTo(0.7);
+    expect(plan.unknownModels).toEqual(["c"]);
+    // 58s of work over 10 workers
+    expect(plan.estimatedWallMs).toBeCloseTo(5800);
+    expect(formatPlanTable(plan)).toContain("No history for c");
+  });
+
+  test("accounts for limits shared by sweep variants", () => {
+    const limits = { maxConcurrency: 1 };
+    const plan = estimatePlan({
+      totals: {
+        "a@temperature=0": { total: 2, execute: 2, reuse: 0 },
+        "a@temperature=1": { total: 2, execute: 2, reuse: 0 },
+      },
+      models: [0, 1].map((t) =>
+        model(`a@temperature=${t}`, {
+          limits,
+          variant: { baseModel: "a", params: { temperature: t } },
+        })
+      ),
+      entries,
+      suiteId: "s",
+      maxConcurrency: 10,
+      providerLimits: {},
+    });
+
+    // Variants use a's history and run one at a time between them
+    expect(plan.models[0].averageDuration).toBe(5000);
+    expect(plan.estimatedWallMs).toBe(20000);
+  });
+
+  test("adds the judge calls the plan needs", () => {
+    const input = {
+      totals: { a: { total: 10, execute: 10, reuse: 0 } },
+      models: [model("a")],
+      entries,
+      suiteId: "s",
+      maxConcurrency: 10,
+      providerLimits: {},
+    };
+    const plan = estimatePlan({
+      ...input,
+      judge: { model: "judge", calls: 10, costs: [0.001, 0.003] },
+    });
+    expect(plan.judge?.estimatedCost).toBeCloseTo(0.02);
+    expect(plan.estimatedCost).toBeCloseTo(0.32);
+    expect(formatPlanTable(plan)).toContain(
+      "Includes $0.02 for 10 calls to judge judge"
+    );
+
+    // Without verdicts to go by, the table says the judge is left out
+    const unpriced = estimatePlan({
+      ...input,
+      judge: { model: "judge", calls: 10, costs: [] },
+    });
+    expect(unpriced.estimatedCost).toBeCloseTo(0.3);
+    expect(formatPlanTable(unpriced)).toContain(
+      "No history for judge judge; 10 judge calls not included in the totals"
+    );
+  });
+});
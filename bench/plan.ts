@@ -0,0 +1,254 @@
+import type { RunnableModel } from "./constants";
+import type { ProviderName } from "./providers";
+import type { ConcurrencyLimits } from "./scheduler";
+
+// One past request, as read from a cache entry
+export type HistoryEntry = {
+  model: string;
+  suiteId: string;
+  cost: number;
+  duration: number;
+};
+
+// Where a model's averages came from: this suite's cache, any suite's cache,
+// or nowhere
+export type EstimateBasis = "suite" | "all suites" | "none";
+
+export type ModelPlanEstimate = {
+  model: string;
+  total: number;
+  execute: number;
+  reuse: number;
+  basis: EstimateBasis;
+  samples: number;
+  averageCost?: number;
+  averageDuration?: number;
+  estimatedCost?: number;
+  estimatedWallMs?: number;
+};
+
+// Judge calls grading the requests to execute, priced from the judge's
+// cached verdicts
+export type JudgePlanEstimate = {
+  model: string;
+  calls: number;
+  samples: number;
+  averageCost?: number;
+  estimatedCost?: number;
+};
+
+export type PlanEstimate = {
+  models: ModelPlanEstimate[];
+  // Totals only cover models with history, and the judge if it has any
+  estimatedCost: number;
+  estimatedWallMs: number;
+  unknownModels: string[];
+  judge?: JudgePlanEstimate;
+};
+
+function average(values: number[]) {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+// Variants fall back to their base model's history
+function historyFor(
+  model: RunnableModel,
+  entries: HistoryEntry[],
+  suiteId: string
+) {
+  const names = [model.name, model.variant?.baseModel].filter(
+    (n): n is string => n !== undefined
+  );
+  for (const name of names) {
+    const forModel = entries.filter((e) => e.model === name);
+    const forSuite = forModel.filter((e) => e.suiteId === suiteId);
+    const picked = forSuite.length > 0 ? forSuite : forModel;
+    if (picked.length > 0)
+      return {
+        basis: (forSuite.length > 0 ? "suite" : "all suites") as EstimateBasis,
+        samples: picked.length,
+        averageCost: average(picked.map((e) => e.cost)),
+        averageDuration: average(picked.map((e) => e.duration)),
+      };
+  }
+  return { basis: "none" as EstimateBasis, samples: 0 };
+}
+
+// Wall time is bounded by total work spread over the workers, and by the
+// slowest model or provider given its own concurrency and rate limits.
+// Assumes perfect packing, so it's a lower bound more than a forecast.
+export function estimatePlan(input: {
+  totals: Record<string, { total: number; execute: number; reuse: number }>;
+  models: RunnableModel[];
+  entries: HistoryEntry[];
+  suiteId: string;
+  maxConcurrency: number;
+  providerLimits: Partial<Record<ProviderName, ConcurrencyLimits>>;
+  // For suites graded by the judge: how many calls it gets and what its past
+  // calls cost
+  judge?: { model: string; calls: number; costs: number[] };
+}): PlanEstimate {
+  const { totals, entries, suiteId, maxConcurrency } = input;
+
+  function limitedWallMs(
+    execute: number,
+    workMs: number,
+    limits?: ConcurrencyLimits
+  ) {
+    const concurrency = Math.min(
+      maxConcurrency,
+      limits?.maxConcurrency ?? maxConcurrency
+    );
+    const rateMs = limits?.requestsPerMinute
+      ? (execute / limits.requestsPerMinute) * 60_000
+      : 0;
+    return Math.max(workMs / concurrency, rateMs);
+  }
+
+  // Work per limit group: sweep variants share their base model's limits
+  const groups = new Map<
+    string,
+    { execute: number; workMs: number; limits?: ConcurrencyLimits }
+  >();
+  function addWork(
+    key: string,
+    execute: number,
+    workMs: number,
+    limits?: ConcurrencyLimits
+  ) {
+    const group = groups.get(key) ?? { execute: 0, workMs: 0, limits };
+    group.execute += execute;
+    group.workMs += workMs;
+    groups.set(key, group);
+  }
+
+  const models = input.models
+    .filter((m) => totals[m.name])
+    .map((model): ModelPlanEstimate => {
+      const counts = totals[model.name];
+      const history = historyFor(model, entries, suiteId);
+      if (history.basis === "none")
+        return { model: model.name, ...counts, ...history };
+
+      const workMs = counts.execute * history.averageDuration!;
+      const provider = model.provider ?? "openrouter";
+      addWork(
+        `model:${model.variant?.baseModel ?? model.name}`,
+        counts.execute,
+        workMs,
+        model.limits
+      );
+      addWork(
+        `provider:${provider}`,
+        counts.execute,
+        workMs,
+        input.providerLimits[provider]
+      );
+      return {
+        model: model.name,
+        ...counts,
+        ...history,
+        estimatedCost: counts.execute * history.averageCost!,
+        estimatedWallMs: limitedWallMs(counts.execute, workMs, model.limits),
+      };
+    });
+
+  const known = models.filter((m) => m.basis !== "none");
+  const totalWorkMs = known.reduce(
+    (sum, m) => sum + m.execute * m.averageDuration!,
+    0
+  );
+
+  let judge: JudgePlanEstimate | undefined;
+  if (input.judge && input.judge.calls > 0) {
+    const { model, calls, costs } = input.judge;
+    judge = { model, calls, samples: costs.length };
+    if (costs.length > 0) {
+      judge.averageCost = average(costs);
+      judge.estimatedCost = calls * judge.averageCost;
+    }
+  }
+
+  return {
+    models,
+    estimatedCost:
+      known.reduce((sum, m) => sum + m.estimatedCost!, 0) +
+      (judge?.estimatedCost ?? 0),
+    estimatedWallMs: Math.max(
+      totalWorkMs / maxConcurrency,
+      ...[...groups.values()].map((g) =>
+        limitedWallMs(g.execute, g.workMs, g.limits)
+      )
+    ),
+    unknownModels: models.filter((m) => m.basis === "none").map((m) => m.model),
+    judge,
+  };
+}
+
+function formatDuration(ms: number) {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+export function formatPlanTable(plan: PlanEstimate): string {
+  const header = [
+    "Model",
+    "Execute",
+    "Reuse",
+    "Avg Cost",
+    "Avg Duration",
+    "Est. Cost",
+    "Est. Time",
+    "Based On",
+  ];
+  const rows = plan.models.map((m) => [
+    m.model,
+    String(m.execute),
+    String(m.reuse),
+    m.averageCost === undefined ? "-" : `$${m.averageCost.toFixed(4)}`,
+    m.averageDuration === undefined
+      ? "-"
+      : `${(m.averageDuration / 1000).toFixed(2)}s`,
+    m.estimatedCost === undefined ? "-" : `$${m.estimatedCost.toFixed(2)}`,
+    m.estimatedWallMs === undefined ? "-" : formatDuration(m.estimatedWallMs),
+    m.basis === "none" ? "no history" : `${m.samples} runs (${m.basis})`,
+  ]);
+  const widths = header.map((h, i) =>
+    Math.max(h.length, ...rows.map((r) => r[i].length))
+  );
+  // Left-align names, right-align numbers
+  const line = (cells: string[]) =>
+    cells
+      .map((c, i) =>
+        i === 0 || i === cells.length - 1
+          ? c.padEnd(widths[i])
+          : c.padStart(widths[i])
+      )
+      .join("  ")
+      .trimEnd();
+
+  const lines = [
+    line(header),
+    line(widths.map((w) => "-".repeat(w))),
+    ...rows.map(line),
+    "",
+    `Estimated cost: $${plan.estimatedCost.toFixed(2)}, estimated time: ${formatDuration(
+      plan.estimatedWallMs
+    )}`,
+  ];
+  if (plan.unknownModels.length > 0)
+    lines.push(
+      `No history for ${plan.unknownModels.join(", ")}; not included in the totals`
+    );
+  const { judge } = plan;
+  if (judge)
+    lines.push(
+      judge.estimatedCost === undefined
+        ? `No history for judge ${judge.model}; ${judge.calls} judge call${judge.calls === 1 ? "" : "s"} not included in the totals`
+        : `Includes $${judge.estimatedCost.toFixed(2)} for ${judge.calls} call${judge.calls === 1 ? "" : "s"} to judge ${judge.model} ($${judge.averageCost!.toFixed(4)} each over ${judge.samples} verdicts)`
+    );
+  return lines.join("\n");
+}
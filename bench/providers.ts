@@ -0,0 +1,166 @@
+import { type LanguageModel } from "ai";
+import { openrouter } from "@openrouter/ai-sdk-provider";
+import { createOpenAI, openai } from "@ai-sdk/openai";
+import { anthropic, createAnthropic } from "@ai-sdk/anthropic";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+
+export type ProviderName =
+  "openrouter" | "openai" | "anthropic" | "openai-compatible" | "local";
+
+// The registry fields a provider needs to build a model
+export type ProviderModelConfig = {
+  model: string;
+  baseURL?: string;
+  apiKeyEnv?: string;
+};
+
+export type ReasoningEffort = "low" | "medium" | "high";
+
+export type ReasoningSettings = {
+  effort?: ReasoningEffort;
+  // Maximum reasoning tokens; takes precedence over effort where a provider
+  // accepts only one of them
+  budgetTokens?: number;
+  disabled?: boolean;
+};
+
+export type ProviderAdapter = {
+  create: (config: ProviderModelConfig) => LanguageModel;
+  // Cost in USD as reported by the provider, or undefined when it reports none
+  extractCost: (providerMetadata: unknown) => number | undefined;
+  // Provider options that apply the reasoning settings; settings the provider
+  // has no equivalent for are left out
+  reasoningOptions: (settings: ReasoningSettings) => Record<string, any>;
+  validate?: (config: Partial<ProviderModelConfig>) => string[];
+};
+
+// Include "usage" so we can log cost
+const defaultProviderOptions = {
+  usage: {
+    include: true,
+  },
+};
+
+function apiKeyFrom(config: ProviderModelConfig) {
+  return config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined;
+}
+
+function requireBaseURL(config: Partial<ProviderModelConfig>) {
+  if (
+    typeof config.baseURL !== "string" ||
+    !/^https?:\/\//.test(config.baseURL)
+  )
+    return [`needs a "baseURL" starting with http:// or https://`];
+  return [];
+}
+
+function optionalBaseURL(config: Partial<ProviderModelConfig>) {
+  return config.baseURL === undefined ? [] : requireBaseURL(config);
+}
+
+const reportsNoCost = () => undefined;
+
+// Anthropic only takes a thinking budget, so efforts map onto one
+const anthropicBudgets: Record<ReasoningEffort, number> = {
+  low: 1024,
+  medium: 4096,
+  high: 16384,
+};
+
+// The OpenAI-compatible provider reads options under its configured name
+function compatibleReasoningOptions(name: string) {
+  return (settings: ReasoningSettings) =>
+    settings.effort && !settings.disabled
+      ? { [name]: { reasoningEffort: settings.effort } }
+      : {};
+}
+
+export const providers: Record<ProviderName, ProviderAdapter> = {
+  openrouter: {
+    create: ({ model }) => openrouter(model, defaultProviderOptions),
+    extractCost: (providerMetadata) => {
+      const cost = (providerMetadata as any)?.openrouter?.usage?.cost;
+      return typeof cost === "number" ? cost : undefined;
+    },
+    reasoningOptions: (settings) => {
+      if (settings.disabled)
+        return { openrouter: { reasoning: { enabled: false } } };
+      if (settings.budgetTokens !== undefined)
+        return {
+          openrouter: { reasoning: { max_tokens: settings.budgetTokens } },
+        };
+      if (settings.effort)
+        return { openrouter: { reasoning: { effort: settings.effort } } };
+      return {};
+    },
+  },
+  openai: {
+    create: (config) =>
+      config.baseURL || config.apiKeyEnv
+        ? createOpenAI({
+            baseURL: config.baseURL,
+            apiKey: apiKeyFrom(config),
+          })(config.model)
+        : openai(config.model),
+    extractCost: reportsNoCost,
+    reasoningOptions: (settings) =>
+      settings.effort && !settings.disabled
+        ? { openai: { reasoningEffort: settings.effort } }
+        : {},
+    validate: optionalBaseURL,
+  },
+  anthropic: {
+    create: (config) =>
+      config.baseURL || config.apiKeyEnv
+        ? createAnthropic({
+            baseURL: config.baseURL,
+            apiKey: apiKeyFrom(config),
+          })(config.model)
+        : anthropic(config.model),
+    extractCost: reportsNoCost,
+    reasoningOptions: (settings) => {
+      if (settings.disabled)
+        return { anthropic: { thinking: { type: "disabled" } } };
+      const budgetTokens =
+        settings.budgetTokens ??
+        (settings.effort ? anthropicBudgets[settings.effort] : undefined);
+      return budgetTokens === undefined
+        ? {}
+        : { anthropic: { thinking: { type: "enabled", budgetTokens } } };
+    },
+    validate: optionalBaseURL,
+  },
+  // Any hosted endpoint speaking the OpenAI chat completions API
+  "openai-compatible": {
+    create: (config) =>
+      createOpenAICompatible({
+        name: "openaiCompatible",
+        baseURL: config.baseURL!,
+        apiKey: apiKeyFrom(config),
+        includeUsage: true,
+      }).chatModel(config.model),
+    extractCost: reportsNoCost,
+    reasoningOptions: compatibleReasoningOptions("openaiCompatible"),
+    validate: requireBaseURL,
+  },
+  // Self-hosted OpenAI-compatible servers (llama.cpp, vLLM, Ollama, ...)
+  local: {
+    create: (config) =>
+      createOpenAICompatible({
+        name: "local",
+        baseURL: config.baseURL!,
+        apiKey: apiKeyFrom(config),
+        includeUsage: true,
+      }).chatModel(config.model),
+    extractCost: reportsNoCost,
+    reasoningOptions: compatibleReasoningOptions("local"),
+    validate: requireBaseURL,
+  },
+};
+
+export function isProviderName(name: unknown): name is ProviderName {
+  return (
+    typeof name === "string" &&
+    Object.prototype.hasOwnProperty.call(providers, name)
+  );
+}
@@ -0,0 +1,148 @@
+import { expect, test, describe } from "bun:test";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+import {
+  createRunnableModel,
+  loadModelRegistry,
+  validateModelRegistry,
+} from "./registry";
+import { selectModels } from "./index";
+import type { RunnableModel } from "./constants";
+
+const benchRoot = dirname(fileURLToPath(import.meta.url));
+
+describe("Model Registry", () => {
+  test("loads the bundled registry without disabled models", () => {
+    const models = loadModelRegistry(join(benchRoot, "models.json"));
+    const names = models.map((m) => m.name);
+
+    expect(names).toContain("grok-4");
+    expect(names).not.toContain("gpt-oss-120b");
+    expect(new Set(names).size).toBe(names.length);
+  });
+
+  test("builds runnable models through the provider factory", () => {
+    const model = createRunnableModel({
+      name: "kimi-k2",
+      provider: "openrouter",
+      model: "moonshotai/kimi-k2",
+      tags: ["moonshot"],
+    });
+
+    expect(model.name).toBe("kimi-k2");
+    expect(model.modelId).toBe("moonshotai/kimi-k2");
+    expect((model.llm as any).modelId).toBe("moonshotai/kimi-k2");
+    expect(model.tags).toEqual(["moonshot"]);
+  });
+
+  test("requires a base URL for OpenAI-compatible and local servers", () => {
+    expect(() =>
+      validateModelRegistry(
+        { models: [{ name: "llama", provider: "local", model: "llama3" }] },
+        "models.json"
+      )
+    ).toThrow(/models\[0\] \("llama"\) needs a "baseURL"/);
+
+    const [def] = validateModelRegistry(
+      {
+        models: [
+          {
+            name: "llama",
+            provider: "local",
+            model: "llama3",
+            baseURL: "http://localhost:11434/v1",
+          },
+        ],
+      },
+      "models.json"
+    );
+    expect(createRunnableModel(def).provider).toBe("local");
+  });
+
+  test("requires a models array", () => {
+    expect(() => validateModelRegistry([], "models.json")).toThrow(
+      /"models" array/
+    );
+  });
+
+  test("reports every problem in one error", () => {
+    let message = "";
+    try {
+      validateModelRegistry(
+        {
+          models: [
+            { name: "a", provider: "openrouter", model: "x/a" },
+            { name: "a", provider: "carrier-pigeon", model: "" },
+            { name: "b", provider: "openai", model: "b", reasoning: "yes" },
+            {
+              name: "c",
+              provider: "openai",
+              model: "c",
+              pricing: { input: 1 },
+              tag: ["typo"],
+            },
+            {
+              name: "d",
+              provider: "anthropic",
+              model: "d",
+              reasoning: { effort: "max", budgetTokens: 0 },
+            },
+          ],
+        },
+        "models.json"
+      );
+    } catch (e) {
+      message = (e as Error).message;
+    }
+
+    expect(message).toContain("Invalid model registry models.json");
+    expect(message).toContain('models[1] ("a") duplicates model name "a"');
+    expect(message).toContain('has provider "carrier-pigeon"');
+    expect(message).toContain('needs a non-empty "model"');
+    expect(message).toContain('models[2] ("b") "reasoning" must be');
+    expect(message).toContain('"pricing.output" must be a non-negative number');
+    expect(message).toContain('has unknown key "tag"');
+    expect(message).toContain('"reasoning.effort" must be one of');
+    expect(message).toContain('"reasoning.budgetTokens" must be a positive');
+  });
+});
+
+describe("Model selection", () => {
+  const model = (name: string, tags?: string[]): RunnableModel => ({
+    name,
+    llm: {} as RunnableModel["llm"],
+    provider: "openrouter",
+    tags,
+  });
+  const available = [
+    model("gpt-5", ["openai"]),
+    model("gpt-5-mini", ["openai"]),
+    model("claude-4-sonnet", ["anthropic"]),
+    model("grok-4"),
+  ];
+  const names = (patterns?: string[]) =>
+    selectModels(patterns, available).map((m) => m.name);
+
+  test("selects every model without patterns", () => {
+    expect(names()).toEqual(available.map((m) => m.name));
+    expect(names([])).toHaveLength(4);
+  });
+
+  test("matches exact names, globs and tags in registry order", () => {
+    expect(names(["grok-4", "gpt-5"])).toEqual(["gpt-5", "grok-4"]);
+    expect(names(["gpt-5*"])).toEqual(["gpt-5", "gpt-5-mini"]);
+    expect(names(["grok-?"])).toEqual(["grok-4"]);
+    expect(names(["tag:anthropic", "grok-4"])).toEqual([
+      "claude-4-sonnet",
+      "grok-4",
+    ]);
+    // Glob characters only; dots and the like are literal
+    expect(() => names(["gpt.5"])).toThrow();
+  });
+
+  test("fails on patterns that match nothing", () => {
+    expect(() => names(["gpt-5", "gemini*", "tag:google"])).toThrow(
+      'No models match "gemini*", "tag:google". Available models: gpt-5, gpt-5-mini, claude-4-sonnet, grok-4'
+    );
+  });
+});
@@ -0,0 +1,216 @@
+import { readFileSync } from "fs";
+import type { RunnableModel } from "./constants";
+import {
+  isProviderName,
+  providers,
+  type ProviderName,
+  type ReasoningSettings,
+} from "./providers";
+import { type ConcurrencyLimits } from "./scheduler";
+
+// USD per million tokens
+export type ModelPricing = {
+  input: number;
+  output: number;
+  reasoning?: number;
+};
+
+export type ModelDefinition = {
+  name: string;
+  provider: ProviderName;
+  model: string;
+  // Endpoint and API key env var for providers that need them
+  baseURL?: string;
+  apiKeyEnv?: string;
+  // true uses the default reasoning budget, false turns reasoning off
+  reasoning?: boolean | ReasoningSettings;
+  temperature?: number;
+  providerOptions?: Record<string, any>;
+  pricing?: ModelPricing;
+  tags?: string[];
+  // Scheduler caps for this model across all of its sweep variants
+  limits?: ConcurrencyLimits;
+  disabled?: boolean;
+};
+
+const definitionKeys = new Set([
+  "name",
+  "provider",
+  "model",
+  "baseURL",
+  "apiKeyEnv",
+  "reasoning",
+  "temperature",
+  "providerOptions",
+  "pricing",
+  "tags",
+  "limits",
+  "disabled",
+]);
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+const reasoningKeys = new Set(["effort", "budgetTokens", "disabled"]);
+const reasoningEfforts = ["low", "medium", "high"];
+
+function validateReasoning(raw: unknown, label: string): string[] {
+  if (raw === undefined || typeof raw === "boolean") return [];
+  if (!isPlainObject(raw))
+    return [`${label} "reasoning" must be true, false or an object`];
+
+  const issues: string[] = [];
+  for (const key of Object.keys(raw)) {
+    if (!reasoningKeys.has(key))
+      issues.push(`${label} "reasoning" has unknown key "${key}"`);
+  }
+  if (raw.effort !== undefined && !reasoningEfforts.includes(raw.effort))
+    issues.push(
+      `${label} "reasoning.effort" must be one of ${reasoningEfforts.join(", ")}`
+    );
+  if (
+    raw.budgetTokens !== undefined &&
+    (!Number.isInteger(raw.budgetTokens) || raw.budgetTokens <= 0)
+  )
+    issues.push(`${label} "reasoning.budgetTokens" must be a positive integer`);
+  if (raw.disabled !== undefined && typeof raw.disabled !== "boolean")
+    issues.push(`${label} "reasoning.disabled" must be true or false`);
+  return issues;
+}
+
+export function validateLimits(raw: unknown, label: string): string[] {
+  if (raw === undefined) return [];
+  if (!isPlainObject(raw)) return [`${label} must be an object`];
+
+  const issues: string[] = [];
+  for (const key of Object.keys(raw)) {
+    if (key !== "maxConcurrency" && key !== "requestsPerMinute")
+      issues.push(`${label} has unknown key "${key}"`);
+    else if (!(typeof raw[key] === "number" && raw[key] > 0))
+      issues.push(`${label} "${key}" must be a positive number`);
+  }
+  if (raw.maxConcurrency !== undefined && !Number.isInteger(raw.maxConcurrency))
+    issues.push(`${label} "maxConcurrency" must be a whole number`);
+  return issues;
+}
+
+function validateDefinition(raw: unknown, label: string): string[] {
+  if (!isPlainObject(raw)) return [`${label} must be an object`];
+
+  const issues: string[] = [];
+  for (const key of Object.keys(raw)) {
+    if (!definitionKeys.has(key))
+      issues.push(`${label} has unknown key "${key}"`);
+  }
+  if (typeof raw.name !== "string" || raw.name.trim().length === 0)
+    issues.push(`${label} needs a non-empty "name"`);
+  if (!isProviderName(raw.provider)) {
+    issues.push(
+      `${label} has provider ${JSON.stringify(raw.provider)}; expected one of ${Object.keys(
+        providers
+      ).join(", ")}`
+    );
+  } else {
+    const validate = providers[raw.provider].validate;
+    if (validate) issues.push(...validate(raw).map((i) => `${label} ${i}`));
+  }
+  if (raw.apiKeyEnv !== undefined && typeof raw.apiKeyEnv !== "string")
+    issues.push(
+      `${label} "apiKeyEnv" must be the name of an environment variable`
+    );
+  if (typeof raw.model !== "string" || raw.model.trim().length === 0)
+    issues.push(`${label} needs a non-empty "model" (the provider's model id)`);
+  issues.push(...validateReasoning(raw.reasoning, label));
+  if (
+    raw.temperature !== undefined &&
+    (typeof raw.temperature !== "number" || raw.temperature < 0)
+  )
+    issues.push(`${label} "temperature" must be a non-negative number`);
+  if (raw.disabled !== undefined && typeof raw.disabled !== "boolean")
+    issues.push(`${label} "disabled" must be true or false`);
+  if (raw.providerOptions !== undefined && !isPlainObject(raw.providerOptions))
+    issues.push(`${label} "providerOptions" must be an object`);
+  if (
+    raw.tags !== undefined &&
+    (!Array.isArray(raw.tags) || raw.tags.some((t) => typeof t !== "string"))
+  )
+    issues.push(`${label} "tags" must be an array of strings`);
+  issues.push(...validateLimits(raw.limits, `${label} "limits"`));
+  if (raw.pricing !== undefined) {
+    if (!isPlainObject(raw.pricing)) {
+      issues.push(`${label} "pricing" must be an object`);
+    } else {
+      for (const key of ["input", "output", "reasoning"]) {
+        const price = raw.pricing[key];
+        const required = key !== "reasoning";
+        if (price === undefined && !required) continue;
+        if (typeof price !== "number" || price < 0)
+          issues.push(
+            `${label} "pricing.${key}" must be a non-negative number (USD per million tokens)`
+          );
+      }
+    }
+  }
+  return issues;
+}
+
+// Throws one error listing every problem so a broken registry can be fixed in
+// a single pass.
+export function validateModelRegistry(
+  raw: unknown,
+  source: string
+): ModelDefinition[] {
+  if (!isPlainObject(raw) || !Array.isArray(raw.models))
+    throw new Error(
+      `Invalid model registry ${source}: expected an object with a "models" array`
+    );
+
+  const issues: string[] = [];
+  const seen = new Set<string>();
+  raw.models.forEach((def: unknown, idx: number) => {
+    const name = isPlainObject(def) ? def.name : undefined;
+    const label = `models[${idx}]${typeof name === "string" ? ` ("${name}")` : ""}`;
+    issues.push(...validateDefinition(def, label));
+    if (typeof name === "string") {
+      if (seen.has(name))
+        issues.push(`${label} duplicates model name "${name}"`);
+      seen.add(name);
+    }
+  });
+
+  if (issues.length > 0)
+    throw new Error(
+      `Invalid model registry ${source}:\n${issues.map((i) => `  - ${i}`).join("\n")}`
+    );
+  return raw.models as ModelDefinition[];
+}
+
+export function createRunnableModel(def: ModelDefinition): RunnableModel {
+  return {
+    name: def.name,
+    llm: providers[def.provider].create(def),
+    provider: def.provider,
+    modelId: def.model,
+    providerOptions: def.providerOptions,
+    reasoning: def.reasoning,
+    temperature: def.temperature,
+    pricing: def.pricing,
+    tags: def.tags,
+    limits: def.limits,
+  };
+}
+
+export function loadModelRegistry(filePath: string): RunnableModel[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, "utf-8"));
+  } catch (e) {
+    throw new Error(
+      `Could not read model registry ${filePath}: ${(e as Error).message}`
+    );
+  }
+  return validateModelRegistry(raw, filePath)
+    .filter((def) => !def.disabled)
+    .map(createRunnableModel);
+}
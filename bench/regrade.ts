@@ -0,0 +1,26 @@
+#!/usr/bin/env bun
+import { existsSync } from "fs";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+import { loadSuiteFromFile, regradeSuite } from "./index";
+
+// Usage: bun run regrade <suite file or id> [version]
+const [suiteArg, version] = process.argv.slice(2);
+
+if (!suiteArg) {
+  console.error("Usage: bun run regrade <suite file or id> [version]");
+  process.exit(1);
+}
+
+const testsDir = join(dirname(fileURLToPath(import.meta.url)), "tests");
+const suiteFilePath = existsSync(suiteArg)
+  ? suiteArg
+  : join(testsDir, suiteArg.endsWith(".json") ? suiteArg : `${suiteArg}.json`);
+
+if (!existsSync(suiteFilePath)) {
+  console.error(`Test suite not found: ${suiteArg}`);
+  process.exit(1);
+}
+
+const suite = await loadSuiteFromFile(suiteFilePath);
+await regradeSuite({ suite, suiteFilePath, version });
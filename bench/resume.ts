@@ -0,0 +1,28 @@
+#!/usr/bin/env bun
+import { resumeRun } from "./index";
+
+// Usage: bun run resume <run id> [output directory]
+const [runId, outputDirectory] = process.argv.slice(2);
+
+if (!runId) {
+  console.error("Usage: bun run resume <run id> [output directory]");
+  process.exit(1);
+}
+
+// Ctrl-C once cancels again and writes partial results; twice quits
+const abortController = new AbortController();
+process.on("SIGINT", () => {
+  if (abortController.signal.aborted) process.exit(130);
+  console.log(
+    "\nCancelling: aborting requests in flight, then writing partial results (Ctrl-C again to quit now)"
+  );
+  abortController.abort();
+});
+
+try {
+  await resumeRun({ runId, outputDirectory, signal: abortController.signal });
+} catch (e) {
+  console.error(`Error: ${(e as Error).message}`);
+  process.exit(1);
+}
+if (abortController.signal.aborted) process.exitCode = 130;
@@ -0,0 +1,143 @@
+import { expect, test, describe } from "bun:test";
+import { APICallError } from "ai";
+import {
+  backoffDelay,
+  classifyError,
+  isRetryableError,
+  withRetry,
+  type RetryPolicy,
+} from "./retry";
+
+const policy: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 100,
+  maxDelayMs: 1000,
+  jitter: 0.5,
+};
+
+function apiError(statusCode: number, headers?: Record<string, string>) {
+  return new APICallError({
+    message: `HTTP ${statusCode}`,
+    url: "https://example.com",
+    requestBodyValues: {},
+    statusCode,
+    responseHeaders: headers,
+  });
+}
+
+describe("Retry", () => {
+  test("classifies transient errors", () => {
+    expect(isRetryableError(apiError(429))).toBe(true);
+    expect(isRetryableError(apiError(503))).toBe(true);
+    expect(isRetryableError(apiError(401))).toBe(false);
+    expect(isRetryableError(new Error("Test timeout"))).toBe(false);
+    expect(
+      isRetryableError(
+        Object.assign(new Error("reset"), { code: "ECONNRESET" })
+      )
+    ).toBe(true);
+  });
+
+  test("records the class, status and retryability of errors", () => {
+    expect(classifyError(apiError(429))).toEqual({
+      class: "rate-limit",
+      status: 429,
+      retryable: true,
+    });
+    expect(classifyError(apiError(401))).toEqual({
+      class: "provider",
+      status: 401,
+      retryable: false,
+    });
+    expect(classifyError(new Error("Test timeout"))).toEqual({
+      class: "timeout",
+      retryable: false,
+    });
+    expect(
+      classifyError(
+        new Error("Response blocked by the provider's content filter")
+      ).class
+    ).toBe("content-filter");
+    expect(classifyError(new Error("Unexpected token")).class).toBe("unknown");
+  });
+
+  test("backs off exponentially with bounded jitter", () => {
+    expect(backoffDelay(1, policy, () => 1)).toBe(100);
+    expect(backoffDelay(1, policy, () => 0)).toBe(50);
+    expect(backoffDelay(3, policy, () => 1)).toBe(400);
+    expect(backoffDelay(10, policy, () => 1)).toBe(1000);
+  });
+
+  test("retries until success and reports each retry", async () => {
+    const delays: number[] = [];
+    const retried: number[] = [];
+    let calls = 0;
+    const value = await withRetry(
+      async () => {
+        calls++;
+        if (calls < 3)
+          throw apiError(
+            429,
+            calls === 2 ? { "retry-after": "0.2" } : undefined
+          );
+        return "ok";
+      },
+      policy,
+      {
+        onRetry: ({ attempt }) => retried.push(attempt),
+        sleep: async (ms) => void delays.push(ms),
+      }
+    );
+
+    expect(value).toBe("ok");
+    expect(retried).toEqual([1, 2]);
+    expect(delays[0]).toBeGreaterThanOrEqual(50);
+    expect(delays[1]).toBe(200);
+  });
+
+  test("gives up on permanent errors and after max attempts", async () => {
+    let calls = 0;
+    const sleep = async () => {};
+    await expect(
+      withRetry(
+        async () => {
+          calls++;
+          throw apiError(400);
+        },
+        policy,
+        { sleep }
+      )
+    ).rejects.toThrow("HTTP 400");
+    expect(calls).toBe(1);
+
+    calls = 0;
+    await expect(
+      withRetry(
+        async () => {
+          calls++;
+          throw apiError(500);
+        },
+        policy,
+        { sleep }
+      )
+    ).rejects.toThrow("HTTP 500");
+    expect(calls).toBe(3);
+  });
+
+  test("stops retrying once aborted", async () => {
+    const controller = new AbortController();
+    let calls = 0;
+    await expect(
+      withRetry(
+        async () => {
+          calls++;
+          controller.abort();
+          throw apiError(503);
+        },
+        policy,
+        { signal: controller.signal }
+      )
+    ).rejects.toThrow("HTTP 503");
+    expect(calls).toBe(1);
+  });
+});
@@ -0,0 +1,165 @@
+import { APICallError } from "ai";
+
+export type RetryPolicy = {
+  // Total tries including the first one; 1 disables retries
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Fraction of each delay that is randomized, 0 to 1
+  jitter: number;
+};
+
+const retryableStatuses = new Set([408, 409, 425, 429, 500, 502, 503, 504]);
+const networkErrorCodes = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+]);
+
+// Rate limits, server errors and dropped connections are worth another try;
+// bad requests, auth failures and our own timeouts are not.
+export function isRetryableError(error: unknown): boolean {
+  if (APICallError.isInstance(error))
+    return (
+      error.isRetryable ||
+      (error.statusCode !== undefined &&
+        retryableStatuses.has(error.statusCode))
+    );
+  const code = (error as any)?.code ?? (error as any)?.cause?.code;
+  if (typeof code === "string" && networkErrorCodes.has(code)) return true;
+  return error instanceof TypeError && /fetch failed/i.test(error.message);
+}
+
+export type ErrorClass =
+  "timeout" | "rate-limit" | "provider" | "content-filter" | "unknown";
+
+// What kind of failure an error result was, stored next to its message
+export type ErrorDetails = {
+  class: ErrorClass;
+  // HTTP status, when the error came from a provider API call
+  status?: number;
+  retryable: boolean;
+};
+
+const contentFilterPattern = /content[ _-]?filter|moderation|flagged/i;
+
+// Our own timeouts ("Test timeout", "Judge timeout") and gateway timeouts
+// count as timeouts; any other API or network failure is the provider's.
+export function classifyError(error: unknown): ErrorDetails {
+  const status = APICallError.isInstance(error) ? error.statusCode : undefined;
+  const message = error instanceof Error ? error.message : String(error);
+  const body = APICallError.isInstance(error) ? (error.responseBody ?? "") : "";
+  const retryable = isRetryableError(error);
+  const code = (error as any)?.code ?? (error as any)?.cause?.code;
+
+  let errorClass: ErrorClass = "unknown";
+  if (status === 429 || /rate[ _-]?limit/i.test(message))
+    errorClass = "rate-limit";
+  else if (
+    contentFilterPattern.test(message) ||
+    contentFilterPattern.test(body)
+  )
+    errorClass = "content-filter";
+  else if (
+    status === 408 ||
+    status === 504 ||
+    code === "ETIMEDOUT" ||
+    /\btime(d)? ?out\b/i.test(message)
+  )
+    errorClass = "timeout";
+  else if (APICallError.isInstance(error) || retryable) errorClass = "provider";
+
+  return {
+    class: errorClass,
+    ...(status !== undefined && { status }),
+    retryable,
+  };
+}
+
+// e.g. "2 timeout, 1 rate-limit"
+export function formatErrorBreakdown(
+  counts: Partial<Record<ErrorClass, number>>
+): string {
+  return Object.entries(counts)
+    .filter(([, n]) => n && n > 0)
+    .sort(([, a], [, b]) => b! - a!)
+    .map(([errorClass, n]) => `${n} ${errorClass}`)
+    .join(", ");
+}
+
+// Honors a Retry-After header in seconds when the provider sends one
+function retryAfterMs(error: unknown): number | undefined {
+  if (!APICallError.isInstance(error)) return undefined;
+  const value = error.responseHeaders?.["retry-after"];
+  const seconds = value === undefined ? NaN : Number(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+}
+
+// Exponential backoff: base * 2^(attempt - 1), capped, with part of the delay
+// randomized so parallel workers don't retry in lockstep.
+export function backoffDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  random = Math.random
+): number {
+  const exponential = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1)
+  );
+  const jitter = exponential * policy.jitter;
+  return Math.round(exponential - jitter + random() * jitter);
+}
+
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  hooks: {
+    onRetry?: (info: {
+      attempt: number;
+      delayMs: number;
+      error: unknown;
+    }) => void;
+    isRetryable?: (error: unknown) => boolean;
+    sleep?: (ms: number) => Promise<void>;
+    // Once aborted, errors are thrown as-is and backoff waits cut short
+    signal?: AbortSignal;
+  } = {}
+): Promise<T> {
+  const { signal } = hooks;
+  const isRetryable = hooks.isRetryable ?? isRetryableError;
+  const sleep =
+    hooks.sleep ??
+    ((ms) =>
+      new Promise<void>((resolve) => {
+        const timer = setTimeout(done, ms);
+        function done() {
+          clearTimeout(timer);
+          signal?.removeEventListener("abort", done);
+          resolve();
+        }
+        signal?.addEventListener("abort", done, { once: true });
+      }));
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (
+        attempt >= policy.maxAttempts ||
+        signal?.aborted ||
+        !isRetryable(error)
+      )
+        throw error;
+      const delayMs = Math.min(
+        policy.maxDelayMs,
+        retryAfterMs(error) ?? backoffDelay(attempt, policy)
+      );
+      hooks.onRetry?.({ attempt, delayMs, error });
+      await sleep(delayMs);
+      if (signal?.aborted) throw error;
+    }
+  }
+}
@@ -0,0 +1,707 @@
+import { expect, test, describe, afterEach } from "bun:test";
+import { APICallError } from "ai";
+import { MockLanguageModelV2 } from "ai/test";
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { openCacheStore } from "./cache-store";
+import { MAX_CONCURRENCY, RETRY_POLICY, type RunnableModel } from "./constants";
+import {
+  migrateCacheFiles,
+  pruneCache,
+  regradeSuite,
+  resumeRun,
+  testRunner,
+  verifyCache,
+  type RunnerEvent,
+  type TestSuite,
+} from "./index";
+
+// A model that answers every prompt with `reply` and reports `cost` per call
+function stubModel(
+  name: string,
+  reply: (call: number) => string | Promise<string>,
+  cost = 0.01
+): RunnableModel & { calls: () => number } {
+  let calls = 0;
+  const llm = new MockLanguageModelV2({
+    doGenerate: async () => ({
+      content: [{ type: "text", text: await reply(++calls) }],
+      finishReason: "stop",
+      usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+      providerMetadata: { openrouter: { usage: { cost } } },
+      warnings: [],
+    }),
+  });
+  return { name, llm, provider: "openrouter", calls: () => calls };
+}
+
+const suite: TestSuite = {
+  id: "stub",
+  name: "Stub Suite",
+  system_prompt: "Name the trick.",
+  tests: [
+    { prompt: "Board flips along its length?", answers: ["kickflip"] },
+    { prompt: "Board flips the other way?", answers: ["heelflip"] },
+  ],
+};
+
+const dirs: string[] = [];
+async function outputDirectory() {
+  const dir = await mkdtemp(join(tmpdir(), "skatebench-runner-"));
+  dirs.push(dir);
+  return dir;
+}
+
+// Contents of the stub suite's results file for version, e.g. "summary-"
+async function readResultFile(
+  out: string,
+  version: string,
+  prefix: string,
+  extension = ".json"
+) {
+  const dir = join(out, "stub", version);
+  const file = (await readdir(dir)).find(
+    (f) => f.startsWith(prefix) && f.endsWith(extension)
+  )!;
+  return readFile(join(dir, file), "utf-8");
+}
+
+afterEach(async () => {
+  for (const dir of dirs.splice(0)) await rm(dir, { recursive: true });
+});
+
+describe("Test runner", () => {
+  test("skips the remaining jobs once the budget is spent", async () => {
+    const model = stubModel("stub", () => "kickflip");
+    const events: RunnerEvent[] = [];
+    const results = await testRunner({
+      suite,
+      version: "v1",
+      availableModels: [model],
+      runsPerModel: 3,
+      maxConcurrency: 1,
+      maxTotalCost: 0.02,
+      outputDirectory: await outputDirectory(),
+      silent: true,
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(model.calls()).toBe(2);
+    expect(results.filter((r) => r.skipped === "budget")).toHaveLength(4);
+    const budget = events.find((e) => e.type === "budget");
+    expect(budget).toMatchObject({
+      scope: "total",
+      limit: 0.02,
+      skipped: { stub: 4 },
+    });
+  });
+
+  test("counts judge calls on reused answers toward the budget", async () => {
+    const model = stubModel("stub", (call) => `kickflip #${call}`);
+    const judge = stubModel("judge", () => "VERDICT: PASS", 0.25);
+    const out = await outputDirectory();
+    const run = (
+      rubric: string,
+      maxTotalCost?: number,
+      onEvent?: (event: RunnerEvent) => void
+    ) =>
+      testRunner({
+        suite: {
+          ...suite,
+          tests: [{ ...suite.tests[0]!, grader: "judge", rubric }],
+        },
+        version: "v1",
+        availableModels: [model],
+        judge,
+        runsPerModel: 3,
+        maxConcurrency: 1,
+        maxTotalCost,
+        outputDirectory: out,
+        silent: true,
+        onEvent,
+      });
+    await run("Any flip along the board's length counts.");
+    expect(judge.calls()).toBe(3);
+
+    // A new rubric re-grades the cached answers with the judge
+    const events: RunnerEvent[] = [];
+    const results = await run("Only a kickflip counts.", 0.5, (event) =>
+      events.push(event)
+    );
+    expect(model.calls()).toBe(3);
+    expect(judge.calls()).toBe(5);
+    expect(results.filter((r) => r.skipped === "budget")).toHaveLength(1);
+    expect(events.find((e) => e.type === "budget")).toMatchObject({
+      scope: "total",
+      spent: 0.5,
+      skipped: { stub: 1 },
+    });
+    const costs = events.flatMap((e) => (e.type === "reuse" ? [e.cost] : []));
+    expect(costs).toEqual([0.26, 0.26]);
+  });
+
+  test("reuses answers cached before settings were recorded", async () => {
+    const out = await outputDirectory();
+    const dir = join(out, "cache", "stub", "v1");
+    await mkdir(dir, { recursive: true });
+    for (const [testIndex, test] of suite.tests.entries())
+      await writeFile(
+        join(dir, `grok-4__run1__${testIndex}.json`),
+        JSON.stringify({
+          cacheVersion: 1,
+          suiteId: "stub",
+          suiteName: suite.name,
+          version: "v1",
+          model: "grok-4",
+          runNumber: 1,
+          testIndex,
+          system_prompt: suite.system_prompt,
+          prompt: test.prompt,
+          answers: test.answers,
+          duration: 1000,
+          cost: 0.01,
+          result: { text: "kickflip", correct: testIndex === 0 },
+        })
+      );
+    await migrateCacheFiles({ outputDirectory: out, silent: true });
+
+    // Still called the way every model was back then
+    const model = {
+      ...stubModel("grok-4", () => "heelflip"),
+      modelId: "x-ai/grok-4",
+      reasoning: true,
+    };
+    const results = await testRunner({
+      suite,
+      version: "v1",
+      availableModels: [model],
+      runsPerModel: 1,
+      outputDirectory: out,
+      silent: true,
+    });
+    expect(model.calls()).toBe(0);
+    expect(results.map((r) => r.result?.text)).toEqual([
+      "kickflip",
+      "kickflip",
+    ]);
+  });
+
+  test("imports judge verdicts cached as files", async () => {
+    const out = await outputDirectory();
+    const dir = join(out, "cache", "_judge");
+    await mkdir(dir, { recursive: true });
+    const verdict = {
+      model: "judge",
+      correct: true,
+      rationale: "",
+      cost: 0.005,
+    };
+    await writeFile(join(dir, "abc.json"), JSON.stringify(verdict));
+    await writeFile(join(dir, "broken.json"), "{");
+
+    const first = await migrateCacheFiles({
+      outputDirectory: out,
+      silent: true,
+    });
+    expect(first.verdicts).toBe(1);
+    expect(first.malformed).toEqual([join(dir, "broken.json")]);
+    expect(openCacheStore(out).findVerdict("abc")).toEqual(verdict);
+    const again = await migrateCacheFiles({
+      outputDirectory: out,
+      silent: true,
+    });
+    expect(again.verdicts).toBe(0);
+  });
+
+  test("keeps the answer when the judge fails and only re-judges it", async () => {
+    const model = stubModel("stub", (call) =>
+      call === 1 ? "kickflip" : "a kickflip"
+    );
+    // The first verdict can't be parsed; later ones pass
+    const judge = stubModel(
+      "judge",
+      (call) => (call === 1 ? "Looks right to me" : "VERDICT: PASS"),
+      0.005
+    );
+    const judged: TestSuite = {
+      ...suite,
+      tests: [{ ...suite.tests[0]!, grader: "judge" }],
+    };
+    const out = await outputDirectory();
+    const run = async (onEvent?: (event: RunnerEvent) => void) =>
+      testRunner({
+        suite: judged,
+        version: "v1",
+        availableModels: [model],
+        judge,
+        runsPerModel: 2,
+        maxConcurrency: 1,
+        outputDirectory: out,
+        silent: true,
+        onEvent,
+      });
+
+    const events: RunnerEvent[] = [];
+    const first = await run((event) => events.push(event));
+    expect(first[0]).toMatchObject({
+      result: { result: { text: "kickflip" } },
+    });
+    expect(first[0]!.error).toBeUndefined();
+    expect(first[0]!.gradingError).toContain("did not contain a verdict");
+    // The judge's charge counts toward the model's cost
+    const costs = events.flatMap((e) => (e.type === "done" ? [e.cost] : []));
+    expect(costs[0]).toBeCloseTo(0.01);
+    expect(costs[1]).toBeCloseTo(0.015);
+
+    const second = await run();
+    expect(model.calls()).toBe(2);
+    expect(judge.calls()).toBe(3);
+    expect(second.every((r) => r.result?.correct)).toBe(true);
+  });
+
+  test("run options beat suite defaults, which beat the constants", async () => {
+    const model = stubModel("stub", () => "kickflip");
+    const out = await outputDirectory();
+    const results = await testRunner({
+      suite: { ...suite, runs_per_model: 3, timeout_seconds: 50 },
+      version: "v1",
+      availableModels: [model],
+      runsPerModel: 2,
+      outputDirectory: out,
+      silent: true,
+    });
+
+    expect(results).toHaveLength(4);
+    const { metadata } = JSON.parse(
+      await readResultFile(out, "v1", "test-results-")
+    );
+    expect(metadata.config).toMatchObject({
+      testRunsPerModel: 2,
+      timeoutSeconds: 50,
+      maxConcurrency: MAX_CONCURRENCY,
+      retry: { maxAttempts: RETRY_POLICY.maxAttempts },
+    });
+  });
+
+  test("reports token usage per model", async () => {
+    const model = stubModel("stub", () => "kickflip");
+    const out = await outputDirectory();
+    await testRunner({
+      suite,
+      version: "v1",
+      availableModels: [model],
+      runsPerModel: 2,
+      outputDirectory: out,
+      silent: true,
+    });
+
+    // Every run used 10 input and 5 output tokens; half were correct
+    const { rankings } = JSON.parse(
+      await readResultFile(out, "v1", "summary-")
+    );
+    expect(rankings[0]).toMatchObject({
+      model: "stub",
+      averageInputTokens: 10,
+      averageOutputTokens: 5,
+      averageReasoningTokens: 0,
+      outputTokensPerCorrect: 10,
+    });
+    const markdown = await readResultFile(out, "v1", "test-results-", ".md");
+    expect(markdown).toContain("| stub | 50.0% | 5 | 0 | 10 |");
+  });
+
+  test("writes reasoning traces into the report", async () => {
+    const llm = new MockLanguageModelV2({
+      doGenerate: async () => ({
+        content: [
+          { type: "reasoning", text: "It flips along the board's length." },
+          { type: "text", text: "kickflip" },
+        ],
+        finishReason: "stop",
+        usage: {
+          inputTokens: 10,
+          outputTokens: 12,
+          totalTokens: 22,
+          reasoningTokens: 7,
+        },
+        warnings: [],
+      }),
+    });
+    const out = await outputDirectory();
+    const [result] = await testRunner({
+      suite: { ...suite, tests: [suite.tests[0]!] },
+      version: "v1",
+      availableModels: [{ name: "thinker", llm, provider: "openrouter" }],
+      runsPerModel: 1,
+      outputDirectory: out,
+      silent: true,
+    });
+
+    expect(result!.result?.reasoning).toBe(
+      "It flips along the board's length."
+    );
+    const markdown = await readResultFile(out, "v1", "test-results-", ".md");
+    expect(markdown).toContain(
+      "<details>\n<summary>Reasoning (7 tokens)</summary>\n\nIt flips along the board's length.\n\n</details>"
+    );
+  });
+
+  test("breaks errors down by class per model", async () => {
+    const model = stubModel("stub", (call) => {
+      if (call === 1)
+        throw new APICallError({
+          message: "Unauthorized",
+          url: "https://example.com",
+          requestBodyValues: {},
+          statusCode: 401,
+        });
+      throw new Error("Test timeout");
+    });
+    const out = await outputDirectory();
+    await testRunner({
+      suite,
+      version: "v1",
+      availableModels: [model],
+      runsPerModel: 1,
+      maxConcurrency: 1,
+      outputDirectory: out,
+      silent: true,
+    });
+
+    const { rankings, metadata } = JSON.parse(
+      await readResultFile(out, "v1", "summary-")
+    );
+    expect(rankings[0]).toMatchObject({
+      model: "stub",
+      errors: 2,
+      errorsByClass: { provider: 1, timeout: 1 },
+    });
+    expect(metadata.overallErrorsByClass).toEqual({ provider: 1, timeout: 1 });
+  });
+
+  test("writes partial results when cancelled", async () => {
+    const controller = new AbortController();
+    // Ctrl-C arrives while the first request is in flight
+    const model = stubModel("stub", () => {
+      controller.abort();
+      return "kickflip";
+    });
+    const out = await outputDirectory();
+    const results = await testRunner({
+      suite,
+      version: "v1",
+      availableModels: [model],
+      runsPerModel: 1,
+      maxConcurrency: 1,
+      outputDirectory: out,
+      silent: true,
+      signal: controller.signal,
+    });
+
+    expect(model.calls()).toBe(1);
+    expect(results.filter((r) => r.skipped === "cancelled")).toHaveLength(1);
+    const { metadata } = JSON.parse(
+      await readResultFile(out, "v1", "test-results-")
+    );
+    expect(metadata).toMatchObject({ partial: true, skipped: 1 });
+  });
+
+  test("resumes a cancelled run with only the missing jobs", async () => {
+    const out = await outputDirectory();
+    const suiteFilePath = join(out, "stub.json");
+    await writeFile(suiteFilePath, JSON.stringify(suite));
+    const controller = new AbortController();
+    const first = stubModel("stub", () => {
+      controller.abort();
+      return "kickflip";
+    });
+    let runId = "";
+    await testRunner({
+      suite,
+      suiteFilePath,
+      version: "v1",
+      availableModels: [first],
+      runsPerModel: 2,
+      maxConcurrency: 1,
+      outputDirectory: out,
+      silent: true,
+      signal: controller.signal,
+      onEvent: (event) => {
+        if (event.type === "plan") runId = event.runId;
+      },
+    });
+    expect(first.calls()).toBe(1);
+
+    const second = stubModel("stub", () => "heelflip");
+    const results = await resumeRun({
+      runId,
+      outputDirectory: out,
+      availableModels: [second],
+      silent: true,
+    });
+
+    expect(second.calls()).toBe(3);
+    expect(results).toHaveLength(4);
+    expect(results.some((r) => r.skipped)).toBe(false);
+    // The run's own answer from before the cancel isn't reuse
+    expect(results.filter((r) => r.result?.reused)).toEqual([]);
+    expect(results.filter((r) => r.result?.correct)).toHaveLength(3);
+  });
+
+  test("a resumed run counts what it spent before toward its budget", async () => {
+    const out = await outputDirectory();
+    const suiteFilePath = join(out, "stub.json");
+    await writeFile(suiteFilePath, JSON.stringify(suite));
+    const controller = new AbortController();
+    const first = stubModel("stub", (call) => {
+      if (call === 2) controller.abort();
+      return "kickflip";
+    });
+    let runId = "";
+    await testRunner({
+      suite,
+      suiteFilePath,
+      version: "v1",
+      availableModels: [first],
+      runsPerModel: 2,
+      maxConcurrency: 1,
+      maxTotalCost: 0.03,
+      outputDirectory: out,
+      silent: true,
+      signal: controller.signal,
+      onEvent: (event) => {
+        if (event.type === "plan") runId = event.runId;
+      },
+    });
+    expect(first.calls()).toBe(2);
+
+    // $0.02 of the $0.03 was spent before the cancel
+    const second = stubModel("stub", () => "heelflip");
+    const results = await resumeRun({
+      runId,
+      outputDirectory: out,
+      availableModels: [second],
+      silent: true,
+    });
+    expect(second.calls()).toBe(1);
+    expect(results.filter((r) => r.skipped === "budget")).toHaveLength(1);
+  });
+
+  test("records which version reused answers came from", async () => {
+    const model = stubModel("stub", () => "kickflip");
+    const out = await outputDirectory();
+    const run = (version: string) =>
+      testRunner({
+        suite,
+        version,
+        availableModels: [model],
+        runsPerModel: 1,
+        cacheReuse: { versions: ["v1"] },
+        outputDirectory: out,
+        silent: true,
+      });
+    await run("v1");
+    const results = await run("v2");
+
+    expect(model.calls()).toBe(2);
+    expect(results.map((r) => r.result?.sourceVersion)).toEqual(["v1", "v1"]);
+    const { metadata } = JSON.parse(
+      await readResultFile(out, "v2", "summary-")
+    );
+    expect(metadata.reusedFromVersions).toEqual({ v1: 2 });
+  });
+
+  test("re-grades reused answers when the answers change", async () => {
+    const model = stubModel("stub", () => "heelflip");
+    const out = await outputDirectory();
+    const run = (runSuite: TestSuite) =>
+      testRunner({
+        suite: runSuite,
+        version: "v1",
+        availableModels: [model],
+        runsPerModel: 1,
+        outputDirectory: out,
+        silent: true,
+      });
+    const first = await run(suite);
+    expect(first.filter((r) => r.result?.correct)).toHaveLength(1);
+
+    const results = await run({
+      ...suite,
+      tests: [{ ...suite.tests[0]!, answers: ["heelflip"] }, suite.tests[1]!],
+    });
+    expect(model.calls()).toBe(2);
+    expect(results.every((r) => r.result?.correct)).toBe(true);
+    expect(results.map((r) => r.result?.regraded ?? false)).toEqual([
+      true,
+      false,
+    ]);
+  });
+});
+
+describe("Regrade", () => {
+  test("grades every stored answer and reports the flips", async () => {
+    const model = stubModel("stub", (call) => `kickflip #${call}`);
+    const out = await outputDirectory();
+    for (const runsPerModel of [1, 2])
+      await testRunner({
+        suite,
+        version: "v1",
+        availableModels: [model],
+        runsPerModel,
+        outputDirectory: out,
+        silent: true,
+      });
+    expect(model.calls()).toBe(4);
+
+    // The second test now accepts what the model answered
+    const fixed: TestSuite = {
+      ...suite,
+      tests: [suite.tests[0]!, { ...suite.tests[1]!, answers: ["kickflip"] }],
+    };
+    const { results, flips } = await regradeSuite({
+      suite: fixed,
+      version: "v1",
+      outputDirectory: out,
+      silent: true,
+    });
+
+    expect(results).toHaveLength(4);
+    expect(results.every((r) => r.result.correct)).toBe(true);
+    expect(
+      flips.map((f) => [f.testIndex, f.runNumber, f.before, f.after])
+    ).toEqual([
+      [1, 1, false, true],
+      [1, 2, false, true],
+    ]);
+  });
+
+  test("leaves answers without a verdict ungraded", async () => {
+    const model = stubModel("stub", () => "kickflip");
+    const judge = stubModel("judge", () => "Looks right to me");
+    const judged: TestSuite = {
+      ...suite,
+      tests: [{ ...suite.tests[0]!, grader: "judge" }],
+    };
+    const out = await outputDirectory();
+    await testRunner({
+      suite: judged,
+      version: "v1",
+      availableModels: [model],
+      judge,
+      runsPerModel: 1,
+      outputDirectory: out,
+      silent: true,
+    });
+
+    const { results, flips } = await regradeSuite({
+      suite: judged,
+      version: "v1",
+      judge,
+      outputDirectory: out,
+      silent: true,
+    });
+    expect(results).toHaveLength(1);
+    expect(results[0]!.result.correct).toBeUndefined();
+    expect(results[0]!.gradingError).toContain("did not contain a verdict");
+    expect(flips).toEqual([]);
+  });
+});
+
+describe("Cache maintenance", () => {
+  test("classifies entries that can't be reused and prunes them", async () => {
+    const out = await outputDirectory();
+    const good = stubModel("good", () => "kickflip");
+    const broken = stubModel("broken", () => {
+      throw new Error("boom");
+    });
+    const run = (runSuite: TestSuite, models: RunnableModel[]) =>
+      testRunner({
+        suite: runSuite,
+        version: "v1",
+        availableModels: models,
+        runsPerModel: 1,
+        maxAttempts: 1,
+        outputDirectory: out,
+        silent: true,
+      });
+    await run(suite, [good, broken]);
+    await run({ ...suite, system_prompt: "Name the grab." }, [good]);
+    // As if recorded before generation settings were part of the key
+    const store = openCacheStore(out);
+    const [old] = store
+      .find({ model: "good" })
+      .filter(
+        (e) =>
+          e.payload.system_prompt === suite.system_prompt &&
+          e.payload.testIndex === 0
+      );
+    store.updatePayload(old!.id, ({ generation, ...payload }) => payload);
+
+    // The second test was dropped from the suite since
+    const current: TestSuite = { ...suite, tests: [suite.tests[0]!] };
+    const { checked, issues } = verifyCache({
+      suite: current,
+      version: "v1",
+      outputDirectory: out,
+      silent: true,
+    });
+    expect(checked).toBe(6);
+    expect(issues.map((i) => [i.kind, i.model, i.testIndex]).sort()).toEqual([
+      ["error", "broken", 0],
+      ["orphaned", "broken", 1],
+      ["orphaned", "good", 1],
+      ["stale-generation", "good", 0],
+      ["system-prompt", "good", 0],
+      ["system-prompt", "good", 1],
+    ]);
+
+    const { deleted } = pruneCache({
+      suite: current,
+      outputDirectory: out,
+      silent: true,
+    });
+    expect(deleted).toBe(5);
+    // Error entries stay for post-mortems unless asked for
+    const after = verifyCache({
+      suite: current,
+      outputDirectory: out,
+      silent: true,
+    });
+    expect(after.issues.map((i) => i.kind)).toEqual(["error"]);
+  });
+
+  test("flags answers recorded with the model's old settings", async () => {
+    const out = await outputDirectory();
+    const model = stubModel("stub", () => "kickflip");
+    await testRunner({
+      suite,
+      version: "v1",
+      availableModels: [model],
+      runsPerModel: 1,
+      outputDirectory: out,
+      silent: true,
+    });
+
+    const cooler = { ...model, temperature: 0.2 };
+    const { issues } = verifyCache({
+      suite,
+      availableModels: [cooler],
+      outputDirectory: out,
+      silent: true,
+    });
+    expect(issues.map((i) => i.kind)).toEqual([
+      "stale-generation",
+      "stale-generation",
+    ]);
+    expect(
+      verifyCache({
+        suite,
+        availableModels: [model],
+        outputDirectory: out,
+        silent: true,
+      }).issues
+    ).toEqual([]);
+  });
+});
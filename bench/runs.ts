@@ -0,0 +1,86 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import { join } from "path";
+import { randomBytes } from "crypto";
+import type { TestRunnerOptions } from "./index";
+
+// Everything needed to run the same jobs again, resolved at start so later
+// changes to suite defaults or constants.ts don't change a resumed run
+export type ResumableOptions = Required<
+  Pick<
+    TestRunnerOptions,
+    | "models"
+    | "runsPerModel"
+    | "maxConcurrency"
+    | "timeoutSeconds"
+    | "maxAttempts"
+    | "providerLimits"
+  >
+> &
+  Pick<
+    TestRunnerOptions,
+    "maxTotalCost" | "maxCostPerModel" | "sweep" | "cacheReuse"
+  >;
+
+export type RunStatus = "running" | "completed" | "cancelled";
+
+export type RunManifest = {
+  runId: string;
+  status: RunStatus;
+  startedAt: string;
+  updatedAt: string;
+  suiteFilePath?: string;
+  suiteId: string;
+  suiteName: string;
+  // Hash of the suite definition, to refuse resuming against an edited suite
+  suiteHash: string;
+  version: string | null;
+  judge: string;
+  options: ResumableOptions;
+  // Model names after sweep expansion
+  models: string[];
+  plan: Record<string, { total: number; execute: number; reuse: number }>;
+  // Set once result files are written
+  resultsFile?: string;
+};
+
+// Sortable by start time, e.g. 20261019-192404-3fa2
+export function createRunId(date = new Date()): string {
+  const stamp = date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace("T", "-")
+    .slice(0, 15);
+  return `${stamp}-${randomBytes(2).toString("hex")}`;
+}
+
+function runsDir(outputDirectory: string) {
+  return join(outputDirectory, "runs");
+}
+
+function manifestPath(outputDirectory: string, runId: string) {
+  return join(runsDir(outputDirectory), `${runId}.json`);
+}
+
+export async function writeRunManifest(
+  outputDirectory: string,
+  manifest: RunManifest
+) {
+  const dir = runsDir(outputDirectory);
+  if (!existsSync(dir)) await mkdir(dir, { recursive: true });
+  await writeFile(
+    manifestPath(outputDirectory, manifest.runId),
+    JSON.stringify(manifest, null, 2),
+    "utf-8"
+  );
+}
+
+export async function readRunManifest(
+  outputDirectory: string,
+  runId: string
+): Promise<RunManifest> {
+  const path = manifestPath(outputDirectory, runId);
+  if (!/^[\w-]+$/.test(runId) || !existsSync(path))
+    throw new Error(`Run not found: ${runId} (looked in ${path})`);
+  return JSON.parse(await readFile(path, "utf-8")) as RunManifest;
+}
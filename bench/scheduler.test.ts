@@ -0,0 +1,97 @@
+import { expect, test, describe } from "bun:test";
+import { createScheduler, createTokenBucket } from "./scheduler";
+
+describe("Scheduler", () => {
+  test("token bucket spaces requests at the configured rate", () => {
+    let now = 0;
+    const bucket = createTokenBucket(60, 1, () => now);
+
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(false);
+    expect(bucket.msUntilToken()).toBe(1000);
+
+    now = 1000;
+    expect(bucket.tryTake()).toBe(true);
+  });
+
+  test("skips jobs whose model is saturated", () => {
+    const scheduler = createScheduler({
+      jobs: ["slow-1", "slow-2", "fast-1", "fast-2"],
+      keysFor: (job) => [`model:${job.split("-")[0]}`],
+      limitsFor: (key) =>
+        key === "model:slow" ? { maxConcurrency: 1 } : undefined,
+    });
+
+    const first = scheduler.next();
+    const second = scheduler.next();
+    const third = scheduler.next();
+    expect(first.type === "job" && first.job).toBe("slow-1");
+    expect(second.type === "job" && second.job).toBe("fast-1");
+    expect(third.type === "job" && third.job).toBe("fast-2");
+
+    // Only slow-2 is left and slow-1 still holds the slot
+    expect(scheduler.next().type).toBe("wait");
+    if (first.type === "job") first.release();
+    const fourth = scheduler.next();
+    expect(fourth.type === "job" && fourth.job).toBe("slow-2");
+    expect(scheduler.next().type).toBe("done");
+  });
+
+  test("waits for a token when a provider is rate limited", async () => {
+    let now = 0;
+    const scheduler = createScheduler({
+      jobs: ["a", "b"],
+      keysFor: () => ["provider:local"],
+      limitsFor: () => ({ requestsPerMinute: 6000 }),
+      now: () => now,
+    });
+
+    expect(scheduler.next().type).toBe("job");
+    const blocked = scheduler.next();
+    expect(blocked.type).toBe("wait");
+
+    now = 10;
+    if (blocked.type === "wait") await blocked.until;
+    const next = scheduler.next();
+    expect(next.type === "job" && next.job).toBe("b");
+  });
+
+  test("retries wait for a token of their own", async () => {
+    let now = 0;
+    const scheduler = createScheduler({
+      jobs: ["a", "b"],
+      keysFor: () => ["provider:local"],
+      limitsFor: () => ({ requestsPerMinute: 6000 }),
+      now: () => now,
+    });
+
+    const first = scheduler.next();
+    if (first.type !== "job") throw new Error("expected a job");
+    let retried = false;
+    const retry = first.takeToken().then(() => (retried = true));
+    await new Promise((r) => setTimeout(r, 15));
+    expect(retried).toBe(false);
+
+    now = 10;
+    await retry;
+    // The retry took the token b would have started with
+    expect(scheduler.next().type).toBe("wait");
+  });
+
+  test("drops queued jobs and wakes waiting workers", async () => {
+    const scheduler = createScheduler({
+      jobs: ["a-1", "a-2", "b-1"],
+      keysFor: () => ["model:shared"],
+      limitsFor: () => ({ maxConcurrency: 1 }),
+    });
+
+    expect(scheduler.next().type).toBe("job");
+    const waiting = scheduler.next();
+    expect(waiting.type).toBe("wait");
+
+    expect(scheduler.drop((job) => job.startsWith("a-"))).toEqual(["a-2"]);
+    expect(scheduler.drop((job) => job.startsWith("a-"))).toEqual([]);
+    if (waiting.type === "wait") await waiting.until;
+    expect(scheduler.remaining()).toBe(1);
+  });
+});
@@ -0,0 +1,161 @@
+export type ConcurrencyLimits = {
+  // Requests in flight at once
+  maxConcurrency?: number;
+  requestsPerMinute?: number;
+};
+
+export type TokenBucket = {
+  tryTake: () => boolean;
+  // Milliseconds until the next token is available, 0 if one is now
+  msUntilToken: () => number;
+};
+
+// Refills continuously at ratePerMinute. The default capacity of one spaces
+// requests evenly instead of bursting a minute's worth at the start.
+export function createTokenBucket(
+  ratePerMinute: number,
+  capacity = 1,
+  now: () => number = Date.now
+): TokenBucket {
+  const msPerToken = 60_000 / ratePerMinute;
+  let tokens = capacity;
+  let last = now();
+
+  function refill() {
+    const t = now();
+    tokens = Math.min(capacity, tokens + (t - last) / msPerToken);
+    last = t;
+  }
+
+  return {
+    tryTake() {
+      refill();
+      if (tokens < 1) return false;
+      tokens -= 1;
+      return true;
+    },
+    msUntilToken() {
+      refill();
+      return tokens >= 1 ? 0 : Math.ceil((1 - tokens) * msPerToken);
+    },
+  };
+}
+
+export type ScheduledJob<T> =
+  | {
+      type: "job";
+      job: T;
+      release: () => void;
+      // For another request by the same job, e.g. a retry: resolves once
+      // its keys' rate limits hand out a token, and takes it
+      takeToken: (signal?: AbortSignal) => Promise<void>;
+    }
+  | { type: "wait"; until: Promise<void> }
+  | { type: "done" };
+
+// Hands out jobs in queue order, skipping jobs whose limit keys (a model, a
+// provider, ...) are saturated so one slow provider can't stall the rest.
+export function createScheduler<T>(options: {
+  jobs: T[];
+  keysFor: (job: T) => string[];
+  limitsFor: (key: string) => ConcurrencyLimits | undefined;
+  now?: () => number;
+}) {
+  const queue = [...options.jobs];
+  const active = new Map<string, number>();
+  const buckets = new Map<string, TokenBucket>();
+  let wakeWaiters: Array<() => void> = [];
+
+  function bucketFor(key: string) {
+    const rpm = options.limitsFor(key)?.requestsPerMinute;
+    if (!rpm) return undefined;
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = createTokenBucket(rpm, 1, options.now);
+      buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  function atCapacity(key: string) {
+    const max = options.limitsFor(key)?.maxConcurrency;
+    return max !== undefined && (active.get(key) ?? 0) >= max;
+  }
+
+  function wake() {
+    const waiters = wakeWaiters;
+    wakeWaiters = [];
+    waiters.forEach((w) => w());
+  }
+
+  function tokenWaitMs(keys: string[]) {
+    return Math.max(0, ...keys.map((k) => bucketFor(k)?.msUntilToken() ?? 0));
+  }
+
+  function next(): ScheduledJob<T> {
+    if (queue.length === 0) return { type: "done" };
+
+    let soonestTokenMs = Infinity;
+    for (let i = 0; i < queue.length; i++) {
+      const keys = options.keysFor(queue[i]);
+      if (keys.some(atCapacity)) continue;
+      const waitMs = tokenWaitMs(keys);
+      if (waitMs > 0) {
+        soonestTokenMs = Math.min(soonestTokenMs, waitMs);
+        continue;
+      }
+
+      keys.forEach((k) => bucketFor(k)?.tryTake());
+      keys.forEach((k) => active.set(k, (active.get(k) ?? 0) + 1));
+      const [job] = queue.splice(i, 1);
+      let released = false;
+      return {
+        type: "job",
+        job,
+        release: () => {
+          if (released) return;
+          released = true;
+          keys.forEach((k) => active.set(k, (active.get(k) ?? 1) - 1));
+          wake();
+        },
+        takeToken: async (signal) => {
+          for (let waitMs = tokenWaitMs(keys); waitMs > 0;) {
+            if (signal?.aborted) return;
+            await new Promise((resolve) => setTimeout(resolve, waitMs));
+            waitMs = tokenWaitMs(keys);
+          }
+          keys.forEach((k) => bucketFor(k)?.tryTake());
+        },
+      };
+    }
+
+    // Everything left is saturated: wait for a slot to free up or a token
+    return {
+      type: "wait",
+      until: new Promise<void>((resolve) => {
+        let timer: NodeJS.Timeout | undefined;
+        const done = () => {
+          if (timer) clearTimeout(timer);
+          wakeWaiters = wakeWaiters.filter((w) => w !== done);
+          resolve();
+        };
+        wakeWaiters.push(done);
+        if (Number.isFinite(soonestTokenMs))
+          timer = setTimeout(done, soonestTokenMs);
+      }),
+    };
+  }
+
+  // Takes queued jobs out, e.g. when a budget runs out
+  function drop(predicate: (job: T) => boolean): T[] {
+    const dropped = queue.filter(predicate);
+    if (dropped.length === 0) return dropped;
+    const kept = queue.filter((job) => !predicate(job));
+    queue.splice(0, queue.length, ...kept);
+    // Waiting workers may have nothing left to wait for
+    wake();
+    return dropped;
+  }
+
+  return { next, drop, remaining: () => queue.length };
+}
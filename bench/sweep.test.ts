@@ -0,0 +1,66 @@
+import { expect, test, describe } from "bun:test";
+import { expandSweep, parseSweepArg, validateSweep } from "./sweep";
+import type { RunnableModel } from "./constants";
+
+const base: RunnableModel = {
+  name: "grok-4",
+  llm: {} as RunnableModel["llm"],
+  provider: "openrouter",
+  reasoning: true,
+};
+
+describe("Parameter sweeps", () => {
+  test("expands each model over the full grid", () => {
+    const variants = expandSweep([base], {
+      temperature: [0, 1],
+      reasoning_budget: [1024, 4096],
+    });
+
+    expect(variants.map((v) => v.name)).toEqual([
+      "grok-4@temperature=0,reasoning_budget=1024",
+      "grok-4@temperature=0,reasoning_budget=4096",
+      "grok-4@temperature=1,reasoning_budget=1024",
+      "grok-4@temperature=1,reasoning_budget=4096",
+    ]);
+    expect(variants[1].temperature).toBe(0);
+    expect(variants[1].reasoning).toEqual({ budgetTokens: 4096 });
+    expect(variants[1].variant).toEqual({
+      baseModel: "grok-4",
+      params: { temperature: 0, reasoning_budget: 4096 },
+    });
+  });
+
+  test("leaves models alone without a sweep", () => {
+    expect(expandSweep([base])).toEqual([base]);
+    expect(expandSweep([base], {})).toEqual([base]);
+  });
+
+  test("keeps the model's reasoning unless a reasoning axis is swept", () => {
+    const [variant] = expandSweep([base], { temperature: [0.5] });
+    expect(variant.reasoning).toBe(true);
+
+    const [effort] = expandSweep([base], { reasoning_effort: ["low"] });
+    expect(effort.reasoning).toEqual({ effort: "low" });
+  });
+
+  test("rejects bad grids", () => {
+    expect(() =>
+      validateSweep(
+        { temperature: [-1], reasoning_budget: [], top_k: [1] },
+        "suite"
+      )
+    ).toThrow(/unknown axis "top_k"/);
+    expect(() => validateSweep({ reasoning_effort: ["max"] }, "suite")).toThrow(
+      /"reasoning_effort" values must be one of low, medium, high/
+    );
+  });
+
+  test("parses the command-line form", () => {
+    expect(
+      parseSweepArg("temperature=0,0.7; reasoning_effort=low,high")
+    ).toEqual({ temperature: [0, 0.7], reasoning_effort: ["low", "high"] });
+    expect(() => parseSweepArg("temperature=hot")).toThrow(
+      /must be non-negative numbers/
+    );
+  });
+});
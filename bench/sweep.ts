@@ -0,0 +1,144 @@
+import type { RunnableModel } from "./constants";
+import type { ReasoningEffort } from "./providers";
+
+// Parameter grids; every combination becomes a variant of each selected model
+export type SweepDefinition = {
+  temperature?: number[];
+  reasoning_budget?: number[];
+  reasoning_effort?: ReasoningEffort[];
+};
+
+export type SweepAxis = keyof SweepDefinition;
+
+// One point of the grid
+export type SweepParams = {
+  temperature?: number;
+  reasoning_budget?: number;
+  reasoning_effort?: ReasoningEffort;
+};
+
+export type ModelVariant = {
+  baseModel: string;
+  params: SweepParams;
+};
+
+const axes: SweepAxis[] = [
+  "temperature",
+  "reasoning_budget",
+  "reasoning_effort",
+];
+const efforts: ReasoningEffort[] = ["low", "medium", "high"];
+
+function axisIssue(axis: SweepAxis, value: unknown): string | undefined {
+  if (axis === "temperature")
+    return typeof value === "number" && value >= 0
+      ? undefined
+      : "must be non-negative numbers";
+  if (axis === "reasoning_budget")
+    return Number.isInteger(value) && (value as number) > 0
+      ? undefined
+      : "must be positive whole numbers";
+  return efforts.includes(value as ReasoningEffort)
+    ? undefined
+    : `must be one of ${efforts.join(", ")}`;
+}
+
+export function validateSweep(raw: unknown, source: string): SweepDefinition {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw))
+    throw new Error(`Invalid sweep in ${source}: expected an object`);
+
+  const issues: string[] = [];
+  for (const [key, values] of Object.entries(raw)) {
+    if (!axes.includes(key as SweepAxis)) {
+      issues.push(`unknown axis "${key}"; expected one of ${axes.join(", ")}`);
+      continue;
+    }
+    if (!Array.isArray(values) || values.length === 0) {
+      issues.push(`"${key}" must be a non-empty array`);
+      continue;
+    }
+    const issue = values
+      .map((v) => axisIssue(key as SweepAxis, v))
+      .find((i) => i !== undefined);
+    if (issue) issues.push(`"${key}" values ${issue}`);
+    if (new Set(values).size !== values.length)
+      issues.push(`"${key}" has duplicate values`);
+  }
+
+  if (issues.length > 0)
+    throw new Error(
+      `Invalid sweep in ${source}:\n${issues.map((i) => `  - ${i}`).join("\n")}`
+    );
+  return raw as SweepDefinition;
+}
+
+// Cartesian product of the axes in a fixed order, so variant names are stable
+export function sweepCombinations(sweep: SweepDefinition): SweepParams[] {
+  let combos: SweepParams[] = [{}];
+  for (const axis of axes) {
+    const values = sweep[axis];
+    if (!values || values.length === 0) continue;
+    combos = combos.flatMap((combo) =>
+      values.map((value) => ({ ...combo, [axis]: value }))
+    );
+  }
+  return combos;
+}
+
+export function variantName(baseModel: string, params: SweepParams) {
+  const parts = axes
+    .filter((axis) => params[axis] !== undefined)
+    .map((axis) => `${axis}=${params[axis]}`);
+  return parts.length > 0 ? `${baseModel}@${parts.join(",")}` : baseModel;
+}
+
+// Sweeping a reasoning axis replaces the model's own reasoning settings, so
+// a swept effort is not shadowed by a registry budget.
+export function expandSweep(
+  models: RunnableModel[],
+  sweep?: SweepDefinition
+): RunnableModel[] {
+  const combos = sweep ? sweepCombinations(sweep) : [{}];
+  if (combos.length === 1 && Object.keys(combos[0]).length === 0) return models;
+
+  return models.flatMap((model) =>
+    combos.map((params) => {
+      const sweepsReasoning =
+        params.reasoning_budget !== undefined ||
+        params.reasoning_effort !== undefined;
+      return {
+        ...model,
+        name: variantName(model.name, params),
+        temperature: params.temperature ?? model.temperature,
+        reasoning: sweepsReasoning
+          ? {
+              ...(params.reasoning_budget !== undefined && {
+                budgetTokens: params.reasoning_budget,
+              }),
+              ...(params.reasoning_effort !== undefined && {
+                effort: params.reasoning_effort,
+              }),
+            }
+          : model.reasoning,
+        variant: { baseModel: model.name, params },
+      };
+    })
+  );
+}
+
+// Parses the CLI form: "temperature=0,0.7,1;reasoning_budget=1024,4096"
+export function parseSweepArg(value: string): SweepDefinition {
+  const raw: Record<string, unknown[]> = {};
+  for (const part of value.split(";").map((p) => p.trim())) {
+    if (part.length === 0) continue;
+    const [axis, list] = part.split("=", 2);
+    if (!axis || list === undefined)
+      throw new Error(`--sweep expects axis=v1,v2,...; got "${part}"`);
+    raw[axis.trim()] = list
+      .split(",")
+      .map((v) => v.trim())
+      .filter((v) => v.length > 0)
+      .map((v) => (axis.trim() === "reasoning_effort" ? v : Number(v)));
+  }
+  return validateSweep(raw, "--sweep");
+}